@@ -7,49 +7,263 @@ import type {
   ShippingConfig,
   EvaluationContext,
   ValidatedShippingMethod,
+  EvaluationOptions,
+  ShippingMethod,
+  Rule,
+  UnavailableReason,
+  ShippingSelection,
+  SelectionValidationOptions,
+  ShippingSelectionResult,
+  PriceTolerance,
+  BackendEvaluationOptions,
+  TierFallback,
 } from "./types.js";
-import { evaluateConditions } from "./conditions.js";
-import { calculatePrice } from "./pricing.js";
+import {
+  explainConditions,
+  explainRule,
+  evaluateRule,
+  createEvaluationScope,
+  type EvaluationScope,
+} from "./conditions.js";
+import {
+  calculatePriceBreakdown,
+  finalizeMethodPrice,
+  tierBreakdown,
+  findMissingMethodContext,
+} from "./pricing.js";
+import { missingContextReasons } from "./requirements.js";
+import { resolveMethodOrigin } from "./locations.js";
+import { findPickupLocations } from "./pickup.js";
+import { roundMoney, CurrencyConversionError } from "./money.js";
+import { getConfigRevision } from "./revision.js";
 import { resolveLocalizedString } from "./utils.js";
 
 // Internal helpers
-function evaluateTieredRule(rule: any, context: EvaluationContext): boolean {
-  // Check order conditions
-  if (rule.criteria.order) {
-    const { value, items, weight } = rule.criteria.order;
-    if (value?.min !== undefined && context.orderValue < value.min) return false;
-    if (value?.max !== undefined && context.orderValue > value.max) return false;
-    if (items?.min !== undefined && context.itemCount < items.min) return false;
-    if (items?.max !== undefined && context.itemCount > items.max) return false;
-    if (weight?.min !== undefined && (context.weight ?? 0) < weight.min) return false;
-    if (weight?.max !== undefined && (context.weight ?? 0) > weight.max) return false;
+function createBackendScope(
+  config: ShippingConfig,
+  context: EvaluationContext,
+  options: EvaluationOptions
+): EvaluationScope {
+  return createEvaluationScope(config, context, {
+    ...options,
+    strict: options.strict ?? true,
+  });
+}
+
+function resolveConfig(
+  config: ShippingConfig,
+  options: BackendEvaluationOptions
+): ShippingConfig | undefined {
+  const { revision, history } = options;
+  if (revision === undefined || revision === getConfigRevision(config)) return config;
+  return history?.get(revision);
+}
+
+function parseMethodId(id: string): { methodId: string; tierId?: string } {
+  const parts = id.split(":");
+  return { methodId: parts[0], tierId: parts.length > 1 ? parts[1] : undefined };
+}
+
+function isWithinTolerance(
+  difference: number,
+  price: number,
+  tolerance: PriceTolerance = {}
+): boolean {
+  const relative = (Math.abs(price) * (tolerance.percentage ?? 0)) / 100;
+  return Math.abs(difference) <= Math.max(tolerance.amount ?? 0, relative);
+}
+
+function unavailableResult(
+  method: ShippingMethod,
+  id: string,
+  tierId: string | undefined,
+  context: EvaluationContext,
+  scope: EvaluationScope,
+  reasons: UnavailableReason[]
+): ValidatedShippingMethod {
+  return {
+    id,
+    methodId: method.id,
+    tierId,
+    name: resolveLocalizedString(method.name, context.locale) ?? "",
+    description: resolveLocalizedString(method.description, context.locale),
+    price: 0,
+    currency: scope.currency,
+    revision: scope.revision,
+    origin: context.origin,
+    available: false,
+    enabled: method.enabled,
+    reasons,
+    meta: method.meta,
+  };
+}
+
+function explainMethod(
+  method: ShippingMethod,
+  tier: Rule | undefined,
+  context: EvaluationContext,
+  scope: EvaluationScope
+): UnavailableReason[] {
+  const reasons: UnavailableReason[] = method.enabled ? [] : [{ code: "DISABLED" }];
+
+  // Strict mode: missing context replaces the reasons of conditions it would decide
+  const missing = missingContextReasons(findMissingMethodContext(method, context, scope));
+  if (missing.length > 0) {
+    return [...reasons, ...missing];
+  }
+
+  reasons.push(...explainConditions(method.conditions, context, scope));
+  if (findPickupLocations(method, context)?.length === 0) {
+    reasons.push({ code: "NO_PICKUP_LOCATION" });
   }
+  if (tier) {
+    reasons.push(...explainRule(tier, context, scope));
+  }
+  return reasons;
+}
+
+function validateTier(
+  method: ShippingMethod,
+  tier: Rule,
+  id: string,
+  context: EvaluationContext,
+  scope: EvaluationScope
+): ValidatedShippingMethod {
+  const locale = context.locale;
+
+  // Check base conditions and whether this tier is valid for the current context
+  const reasons = explainMethod(method, tier, context, scope);
+  const available = reasons.length === 0;
+
+  const tierName = resolveLocalizedString(tier.label, locale);
+  const { price, breakdown, originalPrice, appliedPromotions } = finalizeMethodPrice(
+    method,
+    tierBreakdown(tier, locale, scope),
+    context,
+    scope,
+    tier.id
+  );
 
-  // Check date conditions (for seasonal/holiday pricing)
-  // Supports full ISO 8601 timestamps with timezone
-  if (rule.criteria.date) {
-    const { after, before } = rule.criteria.date;
-    const orderDate = context.orderDate;
+  return {
+    id,
+    methodId: method.id,
+    tierId: tier.id,
+    name: tierName ?? resolveLocalizedString(method.name, locale) ?? "",
+    description: resolveLocalizedString(method.description, locale),
+    price,
+    originalPrice,
+    appliedPromotions,
+    currency: scope.currency,
+    revision: scope.revision,
+    origin: context.origin,
+    fulfillment: method.fulfillment,
+    breakdown,
+    available,
+    enabled: method.enabled,
+    reasons: available ? undefined : reasons,
+    estimatedDays: tier.estimatedDays,
+    meta: method.meta,
+  };
+}
 
-    // If no orderDate provided, date criteria cannot be evaluated
-    // Default to true to maintain backward compatibility
-    if (!orderDate) return true;
+function findFallbackTier(
+  method: ShippingMethod,
+  rules: Rule[],
+  policy: TierFallback,
+  context: EvaluationContext,
+  scope: EvaluationScope
+): Rule | undefined {
+  if (explainMethod(method, undefined, context, scope).length > 0) return undefined;
 
-    // Parse orderDate as full timestamp (preserves time and timezone)
-    const orderTimestamp = new Date(orderDate).getTime();
+  const eligible = rules.filter((rule) => evaluateRule(rule, context, scope));
+  if (policy === "matching") return eligible[0];
+
+  const priceOf = (rule: Rule) =>
+    finalizeMethodPrice(method, tierBreakdown(rule, context.locale, scope), context, scope, rule.id)
+      .price;
+  const direction = policy === "cheapest" ? 1 : -1;
+
+  // Stable: ties keep rule order
+  return [...eligible].sort((a, b) => direction * (priceOf(a) - priceOf(b)))[0];
+}
+
+function validateMethod(
+  method: ShippingMethod,
+  id: string,
+  tierId: string | undefined,
+  context: EvaluationContext,
+  scope: EvaluationScope,
+  options: BackendEvaluationOptions
+): ValidatedShippingMethod | undefined {
+  const locale = context.locale;
 
-    if (after) {
-      const afterTimestamp = new Date(after).getTime();
-      if (orderTimestamp < afterTimestamp) return false;
+  // For tiered pricing with tier ID
+  if (tierId && method.pricing.type === "tiered") {
+    const tier = method.pricing.rules.find((r) => r.id === tierId);
+    if (!tier) {
+      return undefined;
     }
 
-    if (before) {
-      const beforeTimestamp = new Date(before).getTime();
-      if (orderTimestamp >= beforeTimestamp) return false;
+    const validated = validateTier(method, tier, id, context, scope);
+
+    // Stale tier: substitute a tier of the same method per the fallback policy
+    if (!validated.available && options.tierFallback) {
+      const { rules } = method.pricing;
+      const fallback = findFallbackTier(method, rules, options.tierFallback, context, scope);
+      if (fallback && fallback !== tier) {
+        return {
+          ...validateTier(method, fallback, `${method.id}:${fallback.id}`, context, scope),
+          substitutedFrom: id,
+        };
+      }
     }
+
+    return validated;
   }
 
-  return true;
+  // For non-tiered pricing
+  const reasons = explainMethod(method, undefined, context, scope);
+
+  // Base breakdown is undefined when the pricing has no rate for this context
+  const base =
+    reasons.length === 0 ? calculatePriceBreakdown(method.pricing, context, scope) : undefined;
+
+  if (base === undefined) {
+    return unavailableResult(
+      method,
+      method.id,
+      undefined,
+      context,
+      scope,
+      reasons.length > 0 ? reasons : [{ code: "NO_MATCHING_RATE" }]
+    );
+  }
+
+  const { price, breakdown, originalPrice, appliedPromotions } = finalizeMethodPrice(
+    method,
+    base,
+    context,
+    scope
+  );
+
+  return {
+    id: method.id,
+    methodId: method.id,
+    name: resolveLocalizedString(method.name, locale) ?? "",
+    description: resolveLocalizedString(method.description, locale),
+    price,
+    originalPrice,
+    appliedPromotions,
+    currency: scope.currency,
+    revision: scope.revision,
+    origin: context.origin,
+    fulfillment: method.fulfillment,
+    breakdown,
+    available: true,
+    enabled: method.enabled,
+    estimatedDays: method.estimatedDays,
+    meta: method.meta,
+  };
 }
 
 /**
@@ -59,7 +273,10 @@ function evaluateTieredRule(rule: any, context: EvaluationContext): boolean {
  * @param config - Validated shipping configuration
  * @param id - Shipping method ID from frontend (e.g., "shipping.us.standard:tier_free")
  * @param context - Current order context
+ * @param options - Evaluation options (e.g., exchange rates, strict mode; strict by default)
+ *   tier fallback for stale tier IDs, and an earlier config revision to validate against
  * @returns Validated shipping method or undefined if not found/invalid
+ * @throws Error if the revision is neither the config's nor in the history
  *
  * @example
  * ```typescript
@@ -82,14 +299,18 @@ function evaluateTieredRule(rule: any, context: EvaluationContext): boolean {
 export function getShippingMethodById(
   config: ShippingConfig,
   id: string,
-  context: EvaluationContext
+  context: EvaluationContext,
+  options: BackendEvaluationOptions = {}
 ): ValidatedShippingMethod | undefined {
-  const locale = context.locale;
+  const resolved = resolveConfig(config, options);
+  if (!resolved) {
+    throw new Error(`Unknown config revision: ${options.revision}`);
+  }
+  config = resolved;
+  const scope = createBackendScope(config, context, options);
 
   // Parse ID - check if it's a tiered ID
-  const parts = id.split(":");
-  const methodId = parts[0];
-  const tierId = parts.length > 1 ? parts[1] : undefined;
+  const { methodId, tierId } = parseMethodId(id);
 
   // Find the method
   const method = config.methods.find((m) => m.id === methodId);
@@ -97,63 +318,111 @@ export function getShippingMethodById(
     return undefined;
   }
 
-  // For tiered pricing with tier ID
-  if (tierId && method.pricing.type === "tiered") {
-    const tier = method.pricing.rules.find((r) => r.id === tierId);
-    if (!tier) {
-      return undefined;
+  // Methods whose amounts can't be converted to the evaluation currency are unavailable
+  // (origin conditions included)
+  try {
+    // Methods only ship from locations that support them
+    const origin = resolveMethodOrigin(method, context, scope);
+    if (!origin) {
+      return unavailableResult(method, id, tierId, context, scope, [
+        { code: "ORIGIN_UNSUPPORTED", field: "origin" },
+      ]);
     }
 
-    // Check base conditions first
-    const baseConditionsMet = evaluateConditions(method.conditions, context);
+    return validateMethod(method, id, tierId, origin.context, origin.scope, options);
+  } catch (error) {
+    if (!(error instanceof CurrencyConversionError)) throw error;
+    return unavailableResult(method, id, tierId, context, scope, [
+      { code: "CURRENCY_UNSUPPORTED", field: "currency" },
+    ]);
+  }
+}
 
-    // Check if this tier is valid for the current context
-    const tierValid = evaluateTieredRule(tier, context);
+/**
+ * Validate a shipping selection against the price the shopper saw
+ * Rejects stale or tampered selections with a precise status
+ *
+ * @param config - Validated shipping configuration
+ * @param selection - Selected ID, expected price and order context
+ * @param options - Evaluation options and price tolerance (strict by default), and an
+ *   earlier config revision to validate against
+ * @returns Result discriminated by status ("ok" when the selection can be charged;
+ *   "unknown_revision" when the revision is neither the config's nor in the history)
+ *
+ * @example
+ * ```typescript
+ * const result = validateShippingSelection(config, {
+ *   id: body.shippingMethodId,
+ *   expectedPrice: body.shippingPrice,
+ *   context,
+ * });
+ *
+ * if (result.status !== "ok") {
+ *   throw new Error(`Invalid shipping selection: ${result.status}`);
+ * }
+ *
+ * const total = cart.total + result.price;
+ * ```
+ */
+export function validateShippingSelection(
+  config: ShippingConfig,
+  selection: ShippingSelection,
+  options: SelectionValidationOptions = {}
+): ShippingSelectionResult {
+  const { id, expectedPrice, context } = selection;
+  const { methodId, tierId } = parseMethodId(id);
 
-    const available = method.enabled && baseConditionsMet && tierValid;
+  const resolved = resolveConfig(config, options);
+  if (!resolved) {
+    return { status: "unknown_revision", revision: options.revision as string };
+  }
+  config = resolved;
 
-    return {
-      id,
-      methodId: method.id,
-      tierId: tier.id,
-      name: resolveLocalizedString(tier.label, locale) ?? resolveLocalizedString(method.name, locale) ?? "",
-      description: resolveLocalizedString(method.description, locale),
-      price: tier.price,
-      available,
-      enabled: method.enabled,
-      estimatedDays: tier.estimatedDays,
-      meta: method.meta,
-    };
+  const method = config.methods.find((m) => m.id === methodId);
+  if (!method) {
+    return { status: "unknown_method", id };
   }
 
-  // For non-tiered pricing
-  const conditionsMet = evaluateConditions(method.conditions, context);
-  const available = method.enabled && conditionsMet;
+  // Tiered methods are only selectable by tier, other methods have no tiers
+  const { pricing } = method;
+  const tier = pricing.type === "tiered" ? pricing.rules.find((r) => r.id === tierId) : undefined;
+  if (pricing.type === "tiered" ? !tier : tierId !== undefined) {
+    return { status: "unknown_tier", id, methodId };
+  }
+
+  const validated = getShippingMethodById(config, id, context, options) as ValidatedShippingMethod;
+
+  if (!method.enabled) {
+    return { status: "disabled", method: validated };
+  }
 
-  if (!available) {
+  if (!validated.available) {
+    // Conditions of methods without a price in the evaluation currency can't be evaluated
+    const unpriceable = validated.reasons?.some((r) => r.code === "CURRENCY_UNSUPPORTED");
+    const origin = unpriceable
+      ? undefined
+      : resolveMethodOrigin(method, context, createBackendScope(config, context, options));
+    const methodApplies =
+      tier !== undefined &&
+      origin !== undefined &&
+      explainMethod(method, undefined, origin.context, origin.scope).length === 0;
     return {
-      id: method.id,
-      methodId: method.id,
-      name: resolveLocalizedString(method.name, locale) ?? "",
-      description: resolveLocalizedString(method.description, locale),
-      price: 0,
-      available: false,
-      enabled: method.enabled,
-      meta: method.meta,
+      status: methodApplies ? "tier_not_eligible" : "unavailable",
+      method: validated,
+      reasons: validated.reasons ?? [],
     };
   }
 
-  const price = calculatePrice(method.pricing, context);
+  const difference = roundMoney(validated.price - expectedPrice, validated.currency);
+  if (!isWithinTolerance(difference, validated.price, options.tolerance)) {
+    return {
+      status: "price_changed",
+      method: validated,
+      price: validated.price,
+      expectedPrice,
+      difference,
+    };
+  }
 
-  return {
-    id: method.id,
-    methodId: method.id,
-    name: resolveLocalizedString(method.name, locale) ?? "",
-    description: resolveLocalizedString(method.description, locale),
-    price,
-    available: true,
-    enabled: method.enabled,
-    estimatedDays: method.estimatedDays,
-    meta: method.meta,
-  };
+  return { status: "ok", method: validated, price: validated.price };
 }
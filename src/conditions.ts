@@ -1,54 +1,189 @@
 import type {
   Conditions,
   OrderConditions,
+  CartConditions,
+  CartItem,
+  CustomerConditions,
+  CustomerContext,
+  OriginConditions,
+  FulfillmentLocation,
   RangeNumber,
+  GeoConditions,
   GeoCountry,
+  PostalCodePattern,
   DateCriteria,
   EvaluationContext,
+  ShippingConfig,
+  Rule,
+  Zone,
+  PriceRounding,
+  MoneyRange,
+  ExchangeRateProvider,
+  EvaluationOptions,
+  DeliverySchedule,
+  Calendar,
+  ScheduleConditions,
+  Promotion,
+  StrictMode,
+  UnavailableReason,
+  UnavailableReasonCode,
 } from "./types.js";
+import { resolveWeight } from "./weight.js";
+import { resolveAmount } from "./money.js";
+import { toLocalDateTime, isInCalendars, findScheduleWindow } from "./dates.js";
+import { findMissingContext, missingContextReasons } from "./requirements.js";
+import { getConfigRevision } from "./revision.js";
 
 /**
- * Evaluate if a number is within a range
+ * Config-level data needed while evaluating conditions and prices
+ * Built once per call by the frontend and backend APIs
  */
-function isInRange(value: number, range?: RangeNumber): boolean {
-  if (!range) return true;
+export interface EvaluationScope {
+  zones?: Zone[];
+  currency?: string; // Currency prices are evaluated in
+  baseCurrency?: string; // Config currency
+  exchangeRates?: ExchangeRateProvider;
+  rounding?: PriceRounding;
+  delivery?: DeliverySchedule;
+  calendars?: Calendar[];
+  strict?: StrictMode; // Missing-context policy
+  revision?: string; // Config revision, stamped on results
+  promotions?: Promotion[];
+  locations?: FulfillmentLocation[];
+}
+
+/**
+ * Build the evaluation scope for a shipping configuration
+ * Prices are evaluated in the context currency, defaulting to the config currency;
+ * a config without a currency has nothing to convert from, so its amounts are
+ * evaluated as they are, in no currency
+ */
+export function createEvaluationScope(
+  config: ShippingConfig,
+  context?: EvaluationContext,
+  options: EvaluationOptions = {}
+): EvaluationScope {
+  const baseCurrency = config.currency?.toUpperCase();
+
+  return {
+    zones: config.zones,
+    currency: baseCurrency && (context?.currency?.toUpperCase() ?? baseCurrency),
+    baseCurrency,
+    exchangeRates: options.exchangeRates,
+    rounding: config.rounding,
+    delivery: config.delivery,
+    calendars: config.calendars,
+    strict: options.strict,
+    revision: getConfigRevision(config),
+    promotions: config.promotions,
+    locations: config.locations,
+  };
+}
 
+/**
+ * Explain why a number is outside a range (empty when within)
+ */
+function checkRange(
+  value: number,
+  range: RangeNumber,
+  field: string,
+  [belowMin, aboveMax]: [UnavailableReasonCode, UnavailableReasonCode]
+): UnavailableReason[] {
   const { min, max } = range;
 
   if (min !== undefined && value < min) {
-    return false;
+    return [{ code: belowMin, field, required: min, actual: value }];
   }
 
   if (max !== undefined && value > max) {
-    return false;
+    return [{ code: aboveMax, field, required: max, actual: value }];
   }
 
-  return true;
+  return [];
 }
 
 /**
- * Evaluate order conditions
+ * Resolve a money range in the evaluation currency
  */
-function evaluateOrderConditions(
-  conditions: OrderConditions | undefined,
-  context: EvaluationContext
-): boolean {
-  if (!conditions) return true;
+function resolveMoneyRange(range: MoneyRange, scope: EvaluationScope): RangeNumber {
+  return {
+    min: range.min === undefined ? undefined : resolveAmount(range.min, scope),
+    max: range.max === undefined ? undefined : resolveAmount(range.max, scope),
+  };
+}
 
-  // Check order value
-  if (conditions.value && !isInRange(context.orderValue, conditions.value)) {
-    return false;
+/**
+ * Explain unmet order conditions
+ */
+function explainOrderConditions(
+  conditions: OrderConditions,
+  context: EvaluationContext,
+  scope: EvaluationScope
+): UnavailableReason[] {
+  // Check order value (in the evaluation currency)
+  if (conditions.value) {
+    const reasons = checkRange(
+      context.orderValue,
+      resolveMoneyRange(conditions.value, scope),
+      "orderValue",
+      ["ORDER_VALUE_BELOW_MIN", "ORDER_VALUE_ABOVE_MAX"]
+    );
+    if (reasons.length > 0) return reasons;
   }
 
   // Check item count
-  if (conditions.items && !isInRange(context.itemCount, conditions.items)) {
-    return false;
+  if (conditions.items) {
+    const reasons = checkRange(context.itemCount, conditions.items, "itemCount", [
+      "ITEM_COUNT_BELOW_MIN",
+      "ITEM_COUNT_ABOVE_MAX",
+    ]);
+    if (reasons.length > 0) return reasons;
   }
 
   // Check weight
   if (conditions.weight) {
-    const weight = context.weight ?? 0;
-    if (!isInRange(weight, conditions.weight)) {
+    const { basis, divisor } = conditions.weight;
+    const weight = resolveWeight(context, basis, divisor) ?? 0;
+    const reasons = checkRange(weight, conditions.weight, "weight", [
+      "WEIGHT_BELOW_MIN",
+      "WEIGHT_ABOVE_MAX",
+    ]);
+    if (reasons.length > 0) return reasons;
+  }
+
+  return [];
+}
+
+/**
+ * Check if any item carries any of the given values
+ */
+function anyItemHas(
+  items: CartItem[],
+  values: string[],
+  pick: (item: CartItem) => string[] | undefined
+): boolean {
+  return items.some((item) => (pick(item) ?? []).some((value) => values.includes(value)));
+}
+
+/**
+ * Evaluate an any/none list against a per-item attribute
+ * Without line items, "any" cannot match and "none" cannot be violated
+ */
+function evaluateItemAttribute(
+  list: { any?: string[]; none?: string[] } | undefined,
+  items: CartItem[] | undefined,
+  pick: (item: CartItem) => string[] | undefined
+): boolean {
+  if (!list) return true;
+
+  if (list.any && list.any.length > 0) {
+    if (!items || !anyItemHas(items, list.any, pick)) {
+      return false;
+    }
+  }
+
+  if (list.none && list.none.length > 0) {
+    if (items && anyItemHas(items, list.none, pick)) {
       return false;
     }
   }
@@ -56,6 +191,111 @@ function evaluateOrderConditions(
   return true;
 }
 
+/**
+ * Find the cart condition the line items don't satisfy
+ */
+function findUnmetCartCondition(
+  conditions: CartConditions,
+  items: CartItem[] | undefined
+): keyof CartConditions | undefined {
+  if (!evaluateItemAttribute(conditions.tags, items, (item) => item.tags)) {
+    return "tags";
+  }
+
+  if (!evaluateItemAttribute(conditions.categories, items, (item) => item.categories)) {
+    return "categories";
+  }
+
+  if (conditions.sku) {
+    const { include, exclude } = conditions.sku;
+
+    if (include && include.length > 0) {
+      if (!items || !items.some((item) => include.includes(item.sku))) {
+        return "sku";
+      }
+    }
+
+    if (exclude && exclude.length > 0) {
+      if (items && items.some((item) => exclude.includes(item.sku))) {
+        return "sku";
+      }
+    }
+  }
+
+  if (conditions.allItemsHaveTag !== undefined) {
+    const tag = conditions.allItemsHaveTag;
+    if (!items || items.length === 0 || !items.every((item) => item.tags?.includes(tag))) {
+      return "allItemsHaveTag";
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Explain unmet customer conditions
+ * Without context.customer, include lists and segments.any do not match, and
+ * the order count counts as 0
+ */
+function explainCustomerConditions(
+  conditions: CustomerConditions,
+  customer: CustomerContext | undefined
+): UnavailableReason[] {
+  const segments = customer?.segments ?? [];
+  const { any, none } = conditions.segments ?? {};
+  if (any && any.length > 0 && !any.some((segment) => segments.includes(segment))) {
+    return [{ code: "CUSTOMER_MISMATCH", field: "segments" }];
+  }
+  if (none && none.length > 0 && none.some((segment) => segments.includes(segment))) {
+    return [{ code: "CUSTOMER_MISMATCH", field: "segments" }];
+  }
+
+  if (!evaluateIncludeExclude(conditions.membership, customer?.membership)) {
+    return [{ code: "CUSTOMER_MISMATCH", field: "membership" }];
+  }
+
+  if (!evaluateIncludeExclude(conditions.accountType, customer?.accountType)) {
+    return [{ code: "CUSTOMER_MISMATCH", field: "accountType" }];
+  }
+
+  if (conditions.orderCount) {
+    return checkRange(customer?.orderCount ?? 0, conditions.orderCount, "orderCount", [
+      "ORDER_COUNT_BELOW_MIN",
+      "ORDER_COUNT_ABOVE_MAX",
+    ]);
+  }
+
+  return [];
+}
+
+/**
+ * Explain unmet origin conditions
+ * Without a known origin location, include lists and domestic do not match
+ */
+function explainOriginConditions(
+  conditions: OriginConditions,
+  context: EvaluationContext,
+  scope: EvaluationScope
+): UnavailableReason[] {
+  const location = scope.locations?.find((l) => l.id === context.origin);
+
+  if (!evaluateIncludeExclude(conditions.location, location?.id)) {
+    return [{ code: "ORIGIN_MISMATCH", field: "location" }];
+  }
+
+  if (!evaluateIncludeExclude(conditions.country, location?.country)) {
+    return [{ code: "ORIGIN_MISMATCH", field: "country" }];
+  }
+
+  if (conditions.domestic !== undefined) {
+    if (!location || (location.country === context.country) !== conditions.domestic) {
+      return [{ code: "ORIGIN_MISMATCH", field: "domestic" }];
+    }
+  }
+
+  return [];
+}
+
 /**
  * Evaluate geo country conditions
  */
@@ -85,20 +325,209 @@ function evaluateGeoCountry(
 }
 
 /**
- * Evaluate date criteria for seasonal/holiday pricing
- * Supports full ISO 8601 timestamps with timezone
+ * Evaluate an include/exclude list against an optional context value
+ * A missing value never satisfies an include list and never hits an exclude list
  */
-function evaluateDateCriteria(
-  dateCriteria: DateCriteria | undefined,
-  orderDate: Date | undefined
+function evaluateIncludeExclude(
+  list: { include?: string[]; exclude?: string[] } | undefined,
+  value: string | undefined
 ): boolean {
-  if (!dateCriteria) return true;
+  if (!list) return true;
+
+  const { include, exclude } = list;
+
+  if (include && include.length > 0) {
+    if (value === undefined || !include.includes(value)) {
+      return false;
+    }
+  }
+
+  if (exclude && exclude.length > 0) {
+    if (value !== undefined && exclude.includes(value)) {
+      return false;
+    }
+  }
+
+  return true;
+}
+
+/**
+ * Normalize a postal code for comparison (uppercase, no whitespace)
+ */
+function normalizePostalCode(postalCode: string): string {
+  return postalCode.replace(/\s+/g, "").toUpperCase();
+}
+
+/**
+ * Check if a postal code matches a single pattern
+ */
+function matchesPostalCode(pattern: PostalCodePattern, postalCode: string): boolean {
+  const code = normalizePostalCode(postalCode);
+
+  if (typeof pattern === "string") {
+    return code === normalizePostalCode(pattern);
+  }
+
+  if ("prefix" in pattern) {
+    return code.startsWith(normalizePostalCode(pattern.prefix));
+  }
+
+  if ("range" in pattern) {
+    // Numeric range compared on the leading digits, so "96815-1234" falls in 96701-96898
+    const { min, max } = pattern.range;
+    const leading = code.slice(0, min.length);
+    if (!/^\d+$/.test(leading)) return false;
+    const value = Number(leading);
+    return value >= Number(min) && value <= Number(max);
+  }
+
+  if ("regex" in pattern) {
+    return new RegExp(pattern.regex, "i").test(code);
+  }
+
+  return false;
+}
+
+/**
+ * Check if a postal code matches any pattern in the list
+ */
+function matchesAnyPostalCode(patterns: PostalCodePattern[], postalCode: string): boolean {
+  return patterns.some((pattern) => matchesPostalCode(pattern, postalCode));
+}
+
+/**
+ * Evaluate postal code include/exclude patterns
+ */
+function evaluateGeoPostalCode(
+  geoPostalCode: GeoConditions["postalCode"],
+  postalCode: string | undefined
+): boolean {
+  if (!geoPostalCode) return true;
+
+  const { include, exclude } = geoPostalCode;
+
+  if (include && include.length > 0) {
+    if (postalCode === undefined || !matchesAnyPostalCode(include, postalCode)) {
+      return false;
+    }
+  }
 
+  if (exclude && exclude.length > 0) {
+    if (postalCode !== undefined && matchesAnyPostalCode(exclude, postalCode)) {
+      return false;
+    }
+  }
+
+  return true;
+}
+
+/**
+ * Check if the destination in the context belongs to a zone
+ * A zone matches when any of its areas matches
+ */
+export function matchesZone(zone: Zone, context: EvaluationContext): boolean {
+  return zone.areas.some((area) => {
+    if (area.country !== context.country) return false;
+
+    if (area.region && area.region.length > 0) {
+      if (context.region === undefined || !area.region.includes(context.region)) {
+        return false;
+      }
+    }
+
+    if (area.postalCode && area.postalCode.length > 0) {
+      if (context.postalCode === undefined || !matchesAnyPostalCode(area.postalCode, context.postalCode)) {
+        return false;
+      }
+    }
+
+    return true;
+  });
+}
+
+/**
+ * Resolve the IDs of all zones the destination belongs to
+ */
+function resolveMatchingZoneIds(
+  context: EvaluationContext,
+  scope: EvaluationScope
+): string[] {
+  return (scope.zones ?? [])
+    .filter((zone) => matchesZone(zone, context))
+    .map((zone) => zone.id);
+}
+
+/**
+ * Evaluate zone include/exclude lists
+ */
+function evaluateGeoZone(
+  geoZone: GeoConditions["zone"],
+  context: EvaluationContext,
+  scope: EvaluationScope
+): boolean {
+  if (!geoZone) return true;
+
+  const matching = resolveMatchingZoneIds(context, scope);
+  const { include, exclude } = geoZone;
+
+  if (include && include.length > 0) {
+    if (!include.some((id) => matching.includes(id))) {
+      return false;
+    }
+  }
+
+  if (exclude && exclude.length > 0) {
+    if (exclude.some((id) => matching.includes(id))) {
+      return false;
+    }
+  }
+
+  return true;
+}
+
+/**
+ * Explain unmet geo conditions (country, region, postal code and zone)
+ */
+function explainGeoConditions(
+  geo: GeoConditions,
+  context: EvaluationContext,
+  scope: EvaluationScope
+): UnavailableReason[] {
+  if (geo.country && !evaluateGeoCountry(geo.country, context.country)) {
+    return [{ code: "GEO_EXCLUDED", field: "country" }];
+  }
+
+  if (geo.region && !evaluateIncludeExclude(geo.region, context.region)) {
+    return [{ code: "GEO_EXCLUDED", field: "region" }];
+  }
+
+  if (geo.postalCode && !evaluateGeoPostalCode(geo.postalCode, context.postalCode)) {
+    return [{ code: "GEO_EXCLUDED", field: "postalCode" }];
+  }
+
+  if (geo.zone && !evaluateGeoZone(geo.zone, context, scope)) {
+    return [{ code: "GEO_EXCLUDED", field: "zone" }];
+  }
+
+  return [];
+}
+
+/**
+ * Explain unmet date criteria for seasonal/holiday pricing
+ * Supports full ISO 8601 timestamps with timezone; calendar dates (notIn)
+ * use the order date in the delivery time zone (default UTC)
+ */
+function explainDateCriteria(
+  dateCriteria: DateCriteria,
+  orderDate: Date | undefined,
+  scope: EvaluationScope
+): UnavailableReason[] {
   // If no orderDate provided in context, date criteria cannot be evaluated
-  // Default to true (allow) to maintain backward compatibility
-  if (!orderDate) return true;
+  // Default to met (allow) to maintain backward compatibility; strict mode
+  // rejects the method before evaluation
+  if (!orderDate) return [];
 
-  const { after, before } = dateCriteria;
+  const { after, before, notIn } = dateCriteria;
 
   // Parse orderDate as full timestamp (preserves time and timezone)
   const orderTimestamp = new Date(orderDate).getTime();
@@ -107,7 +536,7 @@ function evaluateDateCriteria(
   if (after) {
     const afterTimestamp = new Date(after).getTime();
     if (orderTimestamp < afterTimestamp) {
-      return false;
+      return [{ code: "DATE_OUTSIDE_WINDOW", field: "orderDate" }];
     }
   }
 
@@ -115,44 +544,168 @@ function evaluateDateCriteria(
   if (before) {
     const beforeTimestamp = new Date(before).getTime();
     if (orderTimestamp >= beforeTimestamp) {
-      return false;
+      return [{ code: "DATE_OUTSIDE_WINDOW", field: "orderDate" }];
     }
   }
 
-  return true;
+  // Check blackout calendars
+  if (notIn) {
+    const { date } = toLocalDateTime(new Date(orderDate), scope.delivery?.timezone ?? "UTC");
+    if (isInCalendars(typeof notIn === "string" ? [notIn] : notIn, scope.calendars, date)) {
+      return [{ code: "DATE_BLACKED_OUT", field: "orderDate" }];
+    }
+  }
+
+  return [];
 }
 
 /**
- * Evaluate all conditions for a shipping method
+ * Explain an unmet recurring schedule (days of week, time-of-day windows)
+ * Like date criteria, a missing orderDate does not restrict availability
  */
-export function evaluateConditions(
-  conditions: Conditions | undefined,
-  context: EvaluationContext
-): boolean {
-  if (!conditions) return true;
+function explainScheduleConditions(
+  schedule: ScheduleConditions,
+  orderDate: Date | undefined,
+  scope: EvaluationScope
+): UnavailableReason[] {
+  if (!orderDate) return [];
+
+  const timezone = scope.delivery?.timezone ?? "UTC";
+  if (findScheduleWindow(schedule, new Date(orderDate), timezone) === undefined) {
+    return [{ code: "OUTSIDE_SCHEDULE", field: "orderDate" }];
+  }
 
-  // Evaluate geo conditions
-  if (conditions.geo?.country) {
-    if (!evaluateGeoCountry(conditions.geo.country, context.country)) {
-      return false;
-    }
+  return [];
+}
+
+/**
+ * Explain why conditions are not met
+ * Returns the reasons of the first unmet condition (of every alternative for
+ * anyOf), or an empty array when the conditions are met
+ */
+export function explainConditions(
+  conditions: Conditions | undefined,
+  context: EvaluationContext,
+  scope: EvaluationScope = {}
+): UnavailableReason[] {
+  if (!conditions) return [];
+
+  // Explain geo conditions
+  if (conditions.geo) {
+    const reasons = explainGeoConditions(conditions.geo, context, scope);
+    if (reasons.length > 0) return reasons;
   }
 
-  // Evaluate order conditions
+  // Explain order conditions
   if (conditions.order) {
-    if (!evaluateOrderConditions(conditions.order, context)) {
-      return false;
-    }
+    const reasons = explainOrderConditions(conditions.order, context, scope);
+    if (reasons.length > 0) return reasons;
   }
 
-  // Evaluate date conditions (for seasonal/holiday pricing)
+  // Explain cart line-item conditions
+  if (conditions.cart) {
+    const unmet = findUnmetCartCondition(conditions.cart, context.items);
+    if (unmet) return [{ code: "CART_MISMATCH", field: unmet }];
+  }
+
+  // Explain customer conditions
+  if (conditions.customer) {
+    const reasons = explainCustomerConditions(conditions.customer, context.customer);
+    if (reasons.length > 0) return reasons;
+  }
+
+  // Explain origin conditions
+  if (conditions.origin) {
+    const reasons = explainOriginConditions(conditions.origin, context, scope);
+    if (reasons.length > 0) return reasons;
+  }
+
+  // Explain date conditions (for seasonal/holiday pricing)
   if (conditions.date) {
-    if (!evaluateDateCriteria(conditions.date, context.orderDate)) {
-      return false;
+    const reasons = explainDateCriteria(conditions.date, context.orderDate, scope);
+    if (reasons.length > 0) return reasons;
+  }
+
+  // Explain recurring schedule conditions
+  if (conditions.schedule) {
+    const reasons = explainScheduleConditions(conditions.schedule, context.orderDate, scope);
+    if (reasons.length > 0) return reasons;
+  }
+
+  // Explain composed conditions
+  for (const child of conditions.allOf ?? []) {
+    const reasons = explainConditions(child, context, scope);
+    if (reasons.length > 0) return reasons;
+  }
+
+  if (conditions.anyOf && conditions.anyOf.length > 0) {
+    const alternatives: UnavailableReason[] = [];
+    for (const child of conditions.anyOf) {
+      const reasons = explainConditions(child, context, scope);
+      if (reasons.length === 0) {
+        alternatives.length = 0;
+        break;
+      }
+      alternatives.push(...reasons);
     }
+    if (alternatives.length > 0) return alternatives;
   }
 
-  return true;
+  if (conditions.not) {
+    if (evaluateConditions(conditions.not, context, scope)) {
+      return [{ code: "NOT_CONDITION_MET" }];
+    }
+  }
+
+  return [];
+}
+
+/**
+ * Evaluate all conditions for a shipping method
+ */
+export function evaluateConditions(
+  conditions: Conditions | undefined,
+  context: EvaluationContext,
+  scope: EvaluationScope = {}
+): boolean {
+  return explainConditions(conditions, context, scope).length === 0;
+}
+
+/**
+ * Explain why the criteria of a tiered pricing rule are not met
+ * In strict mode, criteria that need missing context are not met
+ */
+export function explainRule(
+  rule: Rule,
+  context: EvaluationContext,
+  scope: EvaluationScope = {}
+): UnavailableReason[] {
+  const missing = missingContextReasons(findMissingContext(rule.criteria, context, scope));
+  return missing.length > 0 ? missing : explainConditions(rule.criteria, context, scope);
+}
+
+/**
+ * Evaluate the criteria of a tiered pricing rule
+ * Uses the same engine as method conditions, so tiers behave identically
+ * on frontend and backend
+ */
+export function evaluateRule(
+  rule: Rule,
+  context: EvaluationContext,
+  scope: EvaluationScope = {}
+): boolean {
+  return explainRule(rule, context, scope).length === 0;
+}
+
+/**
+ * Find the first tiered rule whose criteria match the context
+ */
+export function findMatchingRule(
+  rules: Rule[],
+  context: EvaluationContext,
+  scope: EvaluationScope = {}
+): Rule | undefined {
+  return rules.find((rule) => evaluateRule(rule, context, scope));
 }
 
 /**
@@ -161,7 +714,8 @@ export function evaluateConditions(
 export function calculateRemaining(
   condition: "order.value.min" | "order.items.min" | "order.weight.min",
   conditions: Conditions | undefined,
-  context: EvaluationContext
+  context: EvaluationContext,
+  scope: EvaluationScope = {}
 ): number {
   if (!conditions) return 0;
 
@@ -169,7 +723,7 @@ export function calculateRemaining(
     case "order.value.min": {
       const min = conditions.order?.value?.min;
       if (min === undefined) return 0;
-      return Math.max(0, min - context.orderValue);
+      return Math.max(0, resolveAmount(min, scope) - context.orderValue);
     }
 
     case "order.items.min": {
@@ -179,8 +733,9 @@ export function calculateRemaining(
     }
 
     case "order.weight.min": {
-      const min = conditions.order?.weight?.min;
-      const weight = context.weight ?? 0;
+      const range = conditions.order?.weight;
+      const min = range?.min;
+      const weight = resolveWeight(context, range?.basis, range?.divisor) ?? 0;
       if (min === undefined) return 0;
       return Math.max(0, min - weight);
     }
@@ -195,13 +750,16 @@ export function calculateRemaining(
  */
 export function getMinimumRequired(
   condition: "order.value.min" | "order.items.min" | "order.weight.min",
-  conditions: Conditions | undefined
+  conditions: Conditions | undefined,
+  scope: EvaluationScope = {}
 ): number | undefined {
   if (!conditions) return undefined;
 
   switch (condition) {
-    case "order.value.min":
-      return conditions.order?.value?.min;
+    case "order.value.min": {
+      const min = conditions.order?.value?.min;
+      return min === undefined ? undefined : resolveAmount(min, scope);
+    }
 
     case "order.items.min":
       return conditions.order?.items?.min;
@@ -0,0 +1,132 @@
+/**
+ * Calendar date utilities
+ * Dates are ISO 8601 calendar dates ("YYYY-MM-DD") in a given time zone
+ */
+
+import type {
+  Weekday,
+  CalendarEntry,
+  Calendar,
+  ScheduleConditions,
+  TimeWindow,
+} from "./types.js";
+
+const WEEKDAYS: Weekday[] = ["sun", "mon", "tue", "wed", "thu", "fri", "sat"];
+
+/**
+ * Local calendar date (YYYY-MM-DD) and minutes since midnight of an instant in a time zone
+ */
+export function toLocalDateTime(date: Date, timeZone: string): { date: string; minutes: number } {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    hourCycle: "h23",
+  }).formatToParts(date);
+  const part = (type: Intl.DateTimeFormatPartTypes) =>
+    parts.find((p) => p.type === type)?.value ?? "00";
+
+  return {
+    date: `${part("year")}-${part("month")}-${part("day")}`,
+    minutes: Number(part("hour")) * 60 + Number(part("minute")),
+  };
+}
+
+/**
+ * Minutes since midnight of a "HH:mm" time
+ */
+export function parseTime(time: string): number {
+  const [hours, minutes] = time.split(":").map(Number);
+  return hours * 60 + minutes;
+}
+
+/**
+ * Add calendar days to an ISO date
+ */
+export function addDays(isoDate: string, days: number): string {
+  const date = new Date(`${isoDate}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + days);
+  return date.toISOString().slice(0, 10);
+}
+
+export function weekdayOf(isoDate: string): Weekday {
+  return WEEKDAYS[new Date(`${isoDate}T00:00:00Z`).getUTCDay()];
+}
+
+/**
+ * Check if a calendar date string is annual ("MM-DD") rather than fixed ("YYYY-MM-DD")
+ */
+export function isAnnualDate(value: string): boolean {
+  return value.length === 5;
+}
+
+/**
+ * Check if an ISO date falls on a calendar entry
+ * Annual ranges may wrap the new year (e.g., 12-23 to 01-02)
+ */
+export function matchesCalendarEntry(entry: CalendarEntry, isoDate: string): boolean {
+  if (typeof entry === "string") {
+    return isAnnualDate(entry) ? isoDate.slice(5) === entry : isoDate === entry;
+  }
+
+  const { from, to } = entry;
+  const value = isAnnualDate(from) ? isoDate.slice(5) : isoDate;
+
+  return from <= to ? value >= from && value <= to : value >= from || value <= to;
+}
+
+/**
+ * Check if an ISO date is in any of the referenced calendars (unknown IDs match nothing)
+ */
+export function isInCalendars(
+  ids: string[],
+  calendars: Calendar[] | undefined,
+  isoDate: string
+): boolean {
+  return ids.some((id) =>
+    calendars
+      ?.find((calendar) => calendar.id === id)
+      ?.dates.some((entry) => matchesCalendarEntry(entry, isoDate))
+  );
+}
+
+const ALL_DAY: TimeWindow = { from: "00:00", to: "24:00" };
+
+/**
+ * Find the schedule window the date falls in
+ * Returns the window and the remaining milliseconds until it closes, or undefined outside the schedule
+ */
+export function findScheduleWindow(
+  schedule: ScheduleConditions,
+  date: Date,
+  timeZone: string
+): { window: TimeWindow; remainingMs: number } | undefined {
+  const local = toLocalDateTime(date, schedule.timezone ?? timeZone);
+
+  if (schedule.days && !schedule.days.includes(weekdayOf(local.date))) {
+    return undefined;
+  }
+
+  const window = (schedule.windows ?? [ALL_DAY]).find(
+    (w) => local.minutes >= parseTime(w.from) && local.minutes < parseTime(w.to)
+  );
+  if (!window) return undefined;
+
+  // Whole-minute local time; subtract the seconds already elapsed in the current minute
+  const remainingMs = (parseTime(window.to) - local.minutes) * 60_000 - (date.getTime() % 60_000);
+  return { window, remainingMs };
+}
+
+/**
+ * Format a duration in minutes as "2h 13m", "2h" or "13m"
+ */
+export function formatDuration(totalMinutes: number): string {
+  const hours = Math.floor(totalMinutes / 60);
+  const minutes = totalMinutes % 60;
+
+  if (hours === 0) return `${minutes}m`;
+  return minutes === 0 ? `${hours}h` : `${hours}h ${minutes}m`;
+}
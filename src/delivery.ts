@@ -0,0 +1,88 @@
+/**
+ * Delivery date estimation
+ * Turns estimatedDays into concrete dates using the warehouse schedule
+ * (time zone, order cut-off, working days, holidays and closure calendars)
+ */
+
+import type {
+  EstimatedDays,
+  DeliverySchedule,
+  DeliveryEstimate,
+  Weekday,
+  Calendar,
+} from "./types.js";
+import { toLocalDateTime, parseTime, addDays, weekdayOf, isInCalendars } from "./dates.js";
+
+const DEFAULT_WORKING_DAYS: Weekday[] = ["mon", "tue", "wed", "thu", "fri"];
+
+// Guard against schedules without any working day (e.g., a calendar covering the whole year)
+const MAX_SEARCH_DAYS = 366;
+
+/**
+ * Thrown when the schedule has no working day within MAX_SEARCH_DAYS
+ * The frontend API leaves earliestDate / latestDate out instead
+ */
+export class NoWorkingDayError extends Error {
+  override name = "NoWorkingDayError";
+}
+
+/**
+ * Estimate ship and delivery dates for an order
+ *
+ * @param estimatedDays - Transit time in working days
+ * @param orderDate - When the order is placed
+ * @param schedule - Warehouse schedule
+ * @param calendars - Calendars referenced by schedule.calendars (ShippingConfig.calendars)
+ * @returns Ship date and delivery window as ISO 8601 dates in the schedule time zone
+ * @throws NoWorkingDayError when closures leave no working day within a year
+ *
+ * @example
+ * ```typescript
+ * estimateDeliveryDates({ min: 2, max: 4 }, new Date("2024-12-13T18:00:00Z"), {
+ *   timezone: "America/New_York",
+ *   cutoffTime: "14:00",
+ * });
+ * // { shipDate: "2024-12-13", earliestDate: "2024-12-17", latestDate: "2024-12-19" }
+ * ```
+ */
+export function estimateDeliveryDates(
+  estimatedDays: EstimatedDays,
+  orderDate: Date,
+  schedule: DeliverySchedule = {},
+  calendars?: Calendar[]
+): DeliveryEstimate {
+  const workingDays = new Set(
+    schedule.workingDays?.length ? schedule.workingDays : DEFAULT_WORKING_DAYS
+  );
+  const holidays = new Set(schedule.holidays ?? []);
+  const closures = schedule.calendars ?? [];
+  const isWorkingDay = (date: string) =>
+    workingDays.has(weekdayOf(date)) &&
+    !holidays.has(date) &&
+    !isInCalendars(closures, calendars, date);
+  const nextWorkingDay = (date: string) => {
+    for (let days = 1; days <= MAX_SEARCH_DAYS; days++) {
+      const next = addDays(date, days);
+      if (isWorkingDay(next)) return next;
+    }
+    throw new NoWorkingDayError(`No working day within ${MAX_SEARCH_DAYS} days of ${date}`);
+  };
+  const addWorkingDays = (date: string, days: number) => {
+    let result = date;
+    for (let i = 0; i < days; i++) result = nextWorkingDay(result);
+    return result;
+  };
+
+  const local = toLocalDateTime(orderDate, schedule.timezone ?? "UTC");
+  const afterCutoff =
+    schedule.cutoffTime !== undefined && local.minutes >= parseTime(schedule.cutoffTime);
+
+  const shipDate =
+    isWorkingDay(local.date) && !afterCutoff ? local.date : nextWorkingDay(local.date);
+
+  return {
+    shipDate,
+    earliestDate: addWorkingDays(shipDate, estimatedDays.min),
+    latestDate: addWorkingDays(shipDate, estimatedDays.max),
+  };
+}
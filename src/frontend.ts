@@ -8,112 +8,240 @@ import type {
   EvaluationContext,
   DisplayShippingMethod,
   ShippingMethod,
+  Rule,
+  EstimatedDays,
+  EvaluationOptions,
+  UnavailableReason,
 } from "./types.js";
-import { evaluateConditions } from "./conditions.js";
-import { calculatePrice } from "./pricing.js";
+import {
+  explainConditions,
+  evaluateRule,
+  findMatchingRule,
+  createEvaluationScope,
+  type EvaluationScope,
+} from "./conditions.js";
+import {
+  calculatePriceBreakdown,
+  finalizeMethodPrice,
+  tierBreakdown,
+  findMissingMethodContext,
+} from "./pricing.js";
+import { resolveWeight } from "./weight.js";
+import {
+  roundMoney,
+  formatAmount,
+  resolveAmount,
+  CurrencyConversionError,
+} from "./money.js";
+import { estimateDeliveryDates, NoWorkingDayError } from "./delivery.js";
+import { findScheduleWindow, formatDuration } from "./dates.js";
+import { missingContextReasons } from "./requirements.js";
+import { resolveMethodOrigin } from "./locations.js";
+import { findPickupLocations } from "./pickup.js";
 import { resolveLocalizedString, interpolateMessage } from "./utils.js";
 
 // Internal helpers
-function evaluateTieredRule(rule: any, context: EvaluationContext): boolean {
-  // Check order conditions
-  if (rule.criteria.order) {
-    const { value, items, weight } = rule.criteria.order;
-    if (value?.min !== undefined && context.orderValue < value.min) return false;
-    if (value?.max !== undefined && context.orderValue > value.max) return false;
-    if (items?.min !== undefined && context.itemCount < items.min) return false;
-    if (items?.max !== undefined && context.itemCount > items.max) return false;
-    if (weight?.min !== undefined && (context.weight ?? 0) < weight.min) return false;
-    if (weight?.max !== undefined && (context.weight ?? 0) > weight.max) return false;
-  }
-
-  // Check date conditions (for seasonal/holiday pricing)
-  // Supports full ISO 8601 timestamps with timezone
-  if (rule.criteria.date) {
-    const { after, before } = rule.criteria.date;
-    const orderDate = context.orderDate;
-
-    // If no orderDate provided, date criteria cannot be evaluated
-    // Default to true to maintain backward compatibility
-    if (!orderDate) return true;
-
-    // Parse orderDate as full timestamp (preserves time and timezone)
-    const orderTimestamp = new Date(orderDate).getTime();
-
-    if (after) {
-      const afterTimestamp = new Date(after).getTime();
-      if (orderTimestamp < afterTimestamp) return false;
-    }
-
-    if (before) {
-      const beforeTimestamp = new Date(before).getTime();
-      if (orderTimestamp >= beforeTimestamp) return false;
-    }
-  }
-
-  return true;
+function formatRemaining(condition: string, remaining: number, scope: EvaluationScope): string {
+  return condition === "order.value.min" ? formatAmount(remaining, scope.currency) : remaining.toFixed(2);
 }
 
 function findNextTierWithAvailability(
-  rules: any[],
-  currentRule: any | undefined,
-  context: EvaluationContext
-): any | undefined {
+  rules: Rule[],
+  currentRule: Rule | undefined,
+  context: EvaluationContext,
+  scope: EvaluationScope
+): Rule | undefined {
   return rules.find((rule) => {
-    const isBetter = currentRule ? rule.price < currentRule.price : true;
+    const isBetter = currentRule
+      ? resolveAmount(rule.price, scope) < resolveAmount(currentRule.price, scope)
+      : true;
     const hasAvailability = rule.availability !== undefined;
-    const notYetMet = !evaluateTieredRule(rule, context);
+    const notYetMet = !evaluateRule(rule, context, scope);
     return isBetter && hasAvailability && notYetMet;
   });
 }
 
-function findMatchingRule(rules: any[], context: EvaluationContext): any | undefined {
-  return rules.find((rule) => evaluateTieredRule(rule, context));
+function resolveDeliveryDates(
+  estimatedDays: EstimatedDays | undefined,
+  context: EvaluationContext,
+  scope: EvaluationScope
+): Pick<DisplayShippingMethod, "earliestDate" | "latestDate"> {
+  if (!estimatedDays || !scope.delivery) return {};
+
+  try {
+    const { earliestDate, latestDate } = estimateDeliveryDates(
+      estimatedDays,
+      context.orderDate ?? new Date(),
+      scope.delivery,
+      scope.calendars
+    );
+    return { earliestDate, latestDate };
+  } catch (error) {
+    // Closures covering the whole year leave no date to show, the method stays available
+    if (!(error instanceof NoWorkingDayError)) throw error;
+    return {};
+  }
+}
+
+function resolveCountdown(
+  method: ShippingMethod,
+  rule: Rule | undefined,
+  context: EvaluationContext,
+  scope: EvaluationScope
+): Pick<DisplayShippingMethod, "countdown"> {
+  const schedule = method.conditions?.schedule ?? rule?.criteria.schedule;
+  if (!schedule || !context.orderDate) return {};
+
+  const orderDate = new Date(context.orderDate);
+  const match = findScheduleWindow(schedule, orderDate, scope.delivery?.timezone ?? "UTC");
+  if (!match) return {};
+
+  const remainingMinutes = Math.ceil(match.remainingMs / 60_000);
+  return {
+    countdown: {
+      endsAt: new Date(orderDate.getTime() + match.remainingMs).toISOString(),
+      remainingMinutes,
+      message: interpolateMessage(resolveLocalizedString(method.display?.countdown, context.locale), {
+        remaining: formatDuration(remainingMinutes),
+      }),
+    },
+  };
+}
+
+function unavailableResult(
+  method: ShippingMethod,
+  context: EvaluationContext,
+  scope: EvaluationScope,
+  message: string | undefined,
+  reasons: UnavailableReason[],
+  overrides: Partial<DisplayShippingMethod> = {}
+): DisplayShippingMethod {
+  return {
+    id: method.id,
+    methodId: method.id,
+    name: resolveLocalizedString(method.name, context.locale) ?? "",
+    description: resolveLocalizedString(method.description, context.locale),
+    icon: method.icon,
+    badge: method.display?.badge,
+    price: 0,
+    currency: scope.currency,
+    revision: scope.revision,
+    origin: context.origin,
+    available: false,
+    enabled: method.enabled,
+    availabilityMode: "hide",
+    message,
+    reasons,
+    meta: method.meta,
+    ...overrides,
+  };
+}
+
+// Methods whose amounts can't be converted to the evaluation currency are unavailable
+function calculateInCurrency(
+  method: ShippingMethod,
+  context: EvaluationContext,
+  scope: EvaluationScope
+): DisplayShippingMethod {
+  try {
+    return calculateShippingMethod(method, context, scope);
+  } catch (error) {
+    if (!(error instanceof CurrencyConversionError)) throw error;
+    return unavailableResult(method, context, scope, error.message, [
+      { code: "CURRENCY_UNSUPPORTED", field: "currency" },
+    ]);
+  }
 }
 
 function calculateShippingMethod(
   method: ShippingMethod,
-  context: EvaluationContext
+  context: EvaluationContext,
+  scope: EvaluationScope
 ): DisplayShippingMethod {
   const locale = context.locale;
 
+  // Disabled methods are never offered
+  if (!method.enabled) {
+    return unavailableResult(method, context, scope, "Method disabled", [{ code: "DISABLED" }]);
+  }
+
+  // Methods only ship from locations that support them
+  const origin = resolveMethodOrigin(method, context, scope);
+  if (!origin) {
+    return unavailableResult(method, context, scope, "Not shipped from origin", [
+      { code: "ORIGIN_UNSUPPORTED", field: "origin" },
+    ]);
+  }
+  ({ context, scope } = origin);
+
+  // Strict mode: missing context the method needs makes it unavailable
+  const missing = findMissingMethodContext(method, context, scope);
+  if (missing) {
+    return unavailableResult(
+      method,
+      context,
+      scope,
+      `Missing context: ${missing}`,
+      missingContextReasons(missing)
+    );
+  }
+
+  // Pickup methods need a pickup location within reach of the shopper
+  const pickupLocations = findPickupLocations(method, context);
+  if (pickupLocations?.length === 0) {
+    return unavailableResult(method, context, scope, "No pickup location nearby", [
+      { code: "NO_PICKUP_LOCATION" },
+    ]);
+  }
+
   // Check base conditions
-  const conditionsMet = evaluateConditions(method.conditions, context);
+  const reasons = explainConditions(method.conditions, context, scope);
+  const conditionsMet = reasons.length === 0;
 
   // Handle tiered pricing
   if (method.pricing.type === "tiered") {
     if (!conditionsMet) {
-      return {
-        id: method.id,
-        methodId: method.id,
-        name: resolveLocalizedString(method.name, locale) ?? "",
-        description: resolveLocalizedString(method.description, locale),
-        icon: method.icon,
-        badge: method.display?.badge,
-        price: 0,
-        available: false,
-        enabled: method.enabled,
-        message: "Conditions not met",
-        meta: method.meta,
-      };
+      // Shown disabled rather than hidden
+      return unavailableResult(method, context, scope, "Conditions not met", reasons, {
+        availabilityMode: undefined,
+      });
     }
 
-    const matchingRule = findMatchingRule(method.pricing.rules, context);
+    const matchingRule = findMatchingRule(method.pricing.rules, context, scope);
 
     if (matchingRule) {
-      const nextTier = findNextTierWithAvailability(method.pricing.rules, matchingRule, context);
+      const nextTier = findNextTierWithAvailability(method.pricing.rules, matchingRule, context, scope);
+      const tierName = resolveLocalizedString(matchingRule.label, locale);
+      const { price, breakdown, originalPrice, appliedPromotions } = finalizeMethodPrice(
+        method,
+        tierBreakdown(matchingRule, locale, scope),
+        context,
+        scope,
+        matchingRule.id
+      );
 
       const result: DisplayShippingMethod = {
         id: `${method.id}:${matchingRule.id}`,
         methodId: method.id,
         tierId: matchingRule.id,
-        name: resolveLocalizedString(matchingRule.label, locale) ?? resolveLocalizedString(method.name, locale) ?? "",
+        name: tierName ?? resolveLocalizedString(method.name, locale) ?? "",
         description: resolveLocalizedString(method.description, locale),
         icon: method.icon,
         badge: method.display?.badge,
-        price: matchingRule.price,
+        price,
+        originalPrice,
+        appliedPromotions,
+        currency: scope.currency,
+        revision: scope.revision,
+        origin: context.origin,
+        breakdown,
         available: true,
         enabled: method.enabled,
         estimatedDays: matchingRule.estimatedDays,
+        ...resolveDeliveryDates(matchingRule.estimatedDays, context, scope),
+        fulfillment: method.fulfillment,
+        pickupLocations,
+        ...resolveCountdown(method, matchingRule, context, scope),
         promoText: resolveLocalizedString(matchingRule.promoText, locale),
         upgradeMessage: resolveLocalizedString(matchingRule.upgradeMessage, locale),
         meta: method.meta,
@@ -129,21 +257,22 @@ function calculateShippingMethod(
           let required = 0;
 
           if (firstCondition === "order.value.min") {
-            required = nextTier.criteria.order?.value?.min ?? 0;
-            remaining = required - context.orderValue;
+            required = resolveAmount(nextTier.criteria.order?.value?.min ?? 0, scope);
+            remaining = roundMoney(required - context.orderValue, scope.currency);
           } else if (firstCondition === "order.items.min") {
             required = nextTier.criteria.order?.items?.min ?? 0;
             remaining = required - context.itemCount;
           } else if (firstCondition === "order.weight.min") {
-            required = nextTier.criteria.order?.weight?.min ?? 0;
-            remaining = required - (context.weight ?? 0);
+            const range = nextTier.criteria.order?.weight;
+            required = range?.min ?? 0;
+            remaining = required - (resolveWeight(context, range?.basis, range?.divisor) ?? 0);
           }
 
           if (remaining > 0) {
             result.availabilityMode = mode;
             result.upgradeMessage = interpolateMessage(
               resolveLocalizedString(message, locale),
-              { remaining: remaining.toFixed(2) }
+              { remaining: formatRemaining(firstCondition, remaining, scope) }
             );
 
             if (showProgress) {
@@ -159,7 +288,13 @@ function calculateShippingMethod(
             result.nextTier = {
               id: nextTier.id,
               label: resolveLocalizedString(nextTier.label, locale),
-              price: nextTier.price,
+              price: finalizeMethodPrice(
+                method,
+                tierBreakdown(nextTier, locale, scope),
+                context,
+                scope,
+                nextTier.id
+              ).price,
               estimatedDays: nextTier.estimatedDays,
             };
           }
@@ -170,20 +305,9 @@ function calculateShippingMethod(
     }
 
     // No matching tier
-    return {
-      id: method.id,
-      methodId: method.id,
-      name: resolveLocalizedString(method.name, locale) ?? "",
-      description: resolveLocalizedString(method.description, locale),
-      icon: method.icon,
-      badge: method.display?.badge,
-      price: 0,
-      available: false,
-      enabled: method.enabled,
-      availabilityMode: "hide",
-      message: "No matching tier",
-      meta: method.meta,
-    };
+    return unavailableResult(method, context, scope, "No matching tier", [
+      { code: "NO_MATCHING_TIER" },
+    ]);
   }
 
   // Non-tiered pricing
@@ -197,64 +321,64 @@ function calculateShippingMethod(
         let required = 0;
 
         if (firstCondition === "order.value.min") {
-          required = method.conditions?.order?.value?.min ?? 0;
-          remaining = required - context.orderValue;
+          required = resolveAmount(method.conditions?.order?.value?.min ?? 0, scope);
+          remaining = roundMoney(required - context.orderValue, scope.currency);
         } else if (firstCondition === "order.items.min") {
           required = method.conditions?.order?.items?.min ?? 0;
           remaining = required - context.itemCount;
         } else if (firstCondition === "order.weight.min") {
-          required = method.conditions?.order?.weight?.min ?? 0;
-          remaining = required - (context.weight ?? 0);
+          const range = method.conditions?.order?.weight;
+          required = range?.min ?? 0;
+          remaining = required - (resolveWeight(context, range?.basis, range?.divisor) ?? 0);
         }
 
         if (remaining > 0) {
-          return {
-            id: method.id,
-            methodId: method.id,
-            name: resolveLocalizedString(method.name, locale) ?? "",
-            description: resolveLocalizedString(method.description, locale),
-            icon: method.icon,
-            badge: method.display?.badge,
-            price: 0,
-            available: false,
-            enabled: method.enabled,
-            availabilityMode: mode,
-            message: interpolateMessage(resolveLocalizedString(message, locale), {
-              remaining: remaining.toFixed(2),
+          const current = required - remaining;
+          return unavailableResult(
+            method,
+            context,
+            scope,
+            interpolateMessage(resolveLocalizedString(message, locale), {
+              remaining: formatRemaining(firstCondition, remaining, scope),
             }),
-            progress: showProgress
-              ? {
-                  current: required - remaining,
-                  required,
-                  remaining,
-                  percentage: required > 0 ? ((required - remaining) / required) * 100 : 0,
-                }
-              : undefined,
-            meta: method.meta,
-          };
+            reasons,
+            {
+              availabilityMode: mode,
+              progress: showProgress
+                ? {
+                    current,
+                    required,
+                    remaining,
+                    percentage: required > 0 ? (current / required) * 100 : 0,
+                  }
+                : undefined,
+            }
+          );
         }
       }
     }
 
     // Default: hide when conditions not met
-    return {
-      id: method.id,
-      methodId: method.id,
-      name: resolveLocalizedString(method.name, locale) ?? "",
-      description: resolveLocalizedString(method.description, locale),
-      icon: method.icon,
-      badge: method.display?.badge,
-      price: 0,
-      available: false,
-      enabled: method.enabled,
-      availabilityMode: "hide",
-      message: "Conditions not met",
-      meta: method.meta,
-    };
+    return unavailableResult(method, context, scope, "Conditions not met", reasons);
   }
 
   // Available - calculate price
-  const price = calculatePrice(method.pricing, context);
+  const base = calculatePriceBreakdown(method.pricing, context, scope);
+
+  // No rate for this context (e.g., beyond the last rate table bracket)
+  if (base === undefined) {
+    return unavailableResult(method, context, scope, "No matching rate", [
+      { code: "NO_MATCHING_RATE" },
+    ]);
+  }
+
+  const { price, breakdown, originalPrice, appliedPromotions } = finalizeMethodPrice(
+    method,
+    base,
+    context,
+    scope
+  );
+
   return {
     id: method.id,
     methodId: method.id,
@@ -263,9 +387,19 @@ function calculateShippingMethod(
     icon: method.icon,
     badge: method.display?.badge,
     price,
+    originalPrice,
+    appliedPromotions,
+    currency: scope.currency,
+    revision: scope.revision,
+    origin: context.origin,
+    breakdown,
     available: true,
     enabled: method.enabled,
     estimatedDays: method.estimatedDays,
+    ...resolveDeliveryDates(method.estimatedDays, context, scope),
+    fulfillment: method.fulfillment,
+    pickupLocations,
+    ...resolveCountdown(method, undefined, context, scope),
     meta: method.meta,
   };
 }
@@ -274,8 +408,14 @@ function calculateShippingMethod(
  * Get all shipping methods for frontend display
  * Returns complete information for rendering checkout UI
  *
+ * Lenient by default, unlike getShippingMethodById(): a method whose conditions need
+ * context the order lacks (e.g., a date window without orderDate) is shown as available
+ * but rejected by the backend with MISSING_CONTEXT. Pass `{ strict: true }` or a
+ * complete context so displayed methods validate.
+ *
  * @param config - Validated shipping configuration
  * @param context - Current order context (cart value, country, etc.)
+ * @param options - Evaluation options (e.g., exchange rates, strict mode; lenient by default)
  * @returns Array of shipping methods with display information
  *
  * @example
@@ -296,10 +436,13 @@ function calculateShippingMethod(
  */
 export function getShippingMethodsForDisplay(
   config: ShippingConfig,
-  context: EvaluationContext
+  context: EvaluationContext,
+  options: EvaluationOptions = {}
 ): DisplayShippingMethod[] {
+  const scope = createEvaluationScope(config, context, options);
+
   return config.methods
-    .map((method) => calculateShippingMethod(method, context))
+    .map((method) => calculateInCurrency(method, context, scope))
     .filter((method) => method.availabilityMode !== "hide")
     .sort((a, b) => {
       // Sort by priority first (if available)
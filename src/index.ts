@@ -5,23 +5,93 @@ export type {
   // Configuration types
   LocalizedString,
   RangeNumber,
+  MoneyAmount,
+  MoneyRange,
   EstimatedDays,
+  Weekday,
+  DeliverySchedule,
+  DeliveryEstimate,
+  CalendarEntry,
+  Calendar,
   GeoCountry,
+  GeoRegion,
+  PostalCodePattern,
+  GeoPostalCode,
+  GeoZone,
+  GeoConditions,
+  ZoneArea,
+  Zone,
+  FulfillmentLocation,
+  WeightBasis,
+  WeightRange,
   OrderConditions,
+  CartConditions,
+  CustomerConditions,
+  OriginConditions,
   DateCriteria,
+  TimeWindow,
+  ScheduleConditions,
   Conditions,
   Availability,
   Rule,
+  RateBracket,
+  RateTableOverflow,
+  IncrementRounding,
+  RateTablePricing,
+  MatrixBracket,
+  MatrixRow,
+  MatrixPricing,
   Pricing,
   Display,
+  FulfillmentKind,
+  Coordinates,
+  PickupAddress,
+  OpeningHours,
+  PickupLocation,
+  Adjustment,
+  Promotion,
+  RoundingMode,
+  PriceRounding,
   ShippingMethod,
   ShippingConfig,
+  Dimensions,
+  CartItem,
+  AccountType,
+  CustomerContext,
   EvaluationContext,
+  ExchangeRateProvider,
+  EvaluationOptions,
+  ContextField,
+  StrictMode,
+  UnavailableReasonCode,
+  UnavailableReason,
   CustomPricingPlugin,
+  CustomPricingResult,
+  PriceBreakdownLine,
   // Frontend types
   DisplayShippingMethod,
+  DisplayPickupLocation,
   // Backend types
   ValidatedShippingMethod,
+  TierFallback,
+  BackendEvaluationOptions,
+  ConfigHistory,
+  ShippingSelection,
+  PriceTolerance,
+  SelectionValidationOptions,
+  ShippingSelectionResult,
+  // Quote types
+  ShippingQuote,
+  QuoteSigningOptions,
+  QuoteVerificationOptions,
+  QuoteVerificationResult,
+  // Shipment types
+  Shipment,
+  DisplayShipment,
+  ShipmentsForDisplay,
+  ShipmentSelection,
+  ValidatedShipment,
+  ValidatedShipments,
 } from "./types.js";
 
 // ============================================
@@ -37,7 +107,27 @@ export { getShippingMethodsForDisplay } from "./frontend.js";
 // ============================================
 // BACKEND API - For order validation
 // ============================================
-export { getShippingMethodById } from "./backend.js";
+export { getShippingMethodById, validateShippingSelection } from "./backend.js";
+
+// ============================================
+// SPLIT SHIPMENTS
+// ============================================
+export { splitShipments, getShipmentsForDisplay, validateShipmentSelection } from "./shipments.js";
+
+// ============================================
+// CONFIG REVISIONS
+// ============================================
+export { getConfigRevision, createConfigHistory } from "./revision.js";
+
+// ============================================
+// SIGNED QUOTES
+// ============================================
+export { createShippingQuote, verifyShippingQuote } from "./quote.js";
+
+// ============================================
+// DELIVERY DATES
+// ============================================
+export { estimateDeliveryDates, NoWorkingDayError } from "./delivery.js";
 
 // ============================================
 // CUSTOM PRICING PLUGINS
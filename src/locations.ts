@@ -0,0 +1,78 @@
+/**
+ * Fulfilment locations
+ * Resolves the location a method ships from among the candidate origins of an order
+ */
+
+import type {
+  ShippingMethod,
+  EvaluationContext,
+  FulfillmentLocation,
+  DeliverySchedule,
+} from "./types.js";
+import { explainConditions, type EvaluationScope } from "./conditions.js";
+
+/**
+ * Context and scope of a method shipped from a resolved origin
+ */
+export interface MethodOrigin {
+  context: EvaluationContext; // origin set to the location ID
+  scope: EvaluationScope; // delivery schedule of the location
+}
+
+/**
+ * Delivery schedule of a location: its cut-off, working days and time zone
+ * override the config schedule
+ */
+function locationSchedule(
+  location: FulfillmentLocation,
+  delivery: DeliverySchedule | undefined
+): DeliverySchedule | undefined {
+  const { timezone, cutoffTime, workingDays } = location;
+  if (timezone === undefined && cutoffTime === undefined && workingDays === undefined) {
+    return delivery;
+  }
+
+  return {
+    ...delivery,
+    timezone: timezone ?? delivery?.timezone,
+    cutoffTime: cutoffTime ?? delivery?.cutoffTime,
+    workingDays: workingDays ?? delivery?.workingDays,
+  };
+}
+
+/**
+ * Resolve the location a method ships from
+ * Candidates are context.origins, else context.origin, else every location; the first
+ * candidate that ships the method and meets its conditions wins (else the first that
+ * ships it, so conditions can explain why). Returns undefined when no candidate ships
+ * the method; without configured locations the context is used as is.
+ */
+export function resolveMethodOrigin(
+  method: ShippingMethod,
+  context: EvaluationContext,
+  scope: EvaluationScope
+): MethodOrigin | undefined {
+  const locations = scope.locations ?? [];
+  if (locations.length === 0) return { context, scope };
+
+  const { origins, ...rest } = context;
+  const ids = origins ?? (context.origin !== undefined ? [context.origin] : locations.map((l) => l.id));
+
+  const candidates: MethodOrigin[] = [];
+  for (const id of ids) {
+    const location = locations.find((l) => l.id === id);
+    if (!location || (location.methods && !location.methods.includes(method.id))) continue;
+
+    candidates.push({
+      context: { ...rest, origin: location.id },
+      scope: { ...scope, delivery: locationSchedule(location, scope.delivery) },
+    });
+  }
+
+  return (
+    candidates.find(
+      (candidate) =>
+        explainConditions(method.conditions, candidate.context, candidate.scope).length === 0
+    ) ?? candidates[0]
+  );
+}
@@ -0,0 +1,201 @@
+/**
+ * Money helpers
+ * Currency-aware decimal places, minor-unit arithmetic and price rounding
+ */
+
+import type { RoundingMode, PriceRounding, MoneyAmount } from "./types.js";
+import type { EvaluationScope } from "./conditions.js";
+
+const DEFAULT_DECIMALS = 2;
+
+const decimalsCache = new Map<string, number>();
+
+/**
+ * Decimal places of a currency's minor unit (e.g., USD 2, JPY 0, KWD 3)
+ * Defaults to 2 when the currency is missing or unknown
+ */
+export function getCurrencyDecimals(currency?: string): number {
+  if (!currency) return DEFAULT_DECIMALS;
+
+  const code = currency.toUpperCase();
+  let decimals = decimalsCache.get(code);
+
+  if (decimals === undefined) {
+    try {
+      const format = new Intl.NumberFormat("en", { style: "currency", currency: code });
+      decimals = format.resolvedOptions().maximumFractionDigits ?? DEFAULT_DECIMALS;
+    } catch {
+      decimals = DEFAULT_DECIMALS;
+    }
+    decimalsCache.set(code, decimals);
+  }
+
+  return decimals;
+}
+
+/**
+ * Round a value to an integer
+ * Float noise is stripped first so that 1.005 × 100 rounds like 100.5
+ */
+function roundInteger(value: number, mode: RoundingMode): number {
+  const v = Number(value.toFixed(6));
+
+  switch (mode) {
+    case "up":
+      return Math.ceil(v);
+    case "down":
+      return Math.floor(v);
+    case "half_even": {
+      const floor = Math.floor(v);
+      const fraction = v - floor;
+      if (fraction !== 0.5) return Math.round(v);
+      return floor % 2 === 0 ? floor : floor + 1;
+    }
+    case "half_up":
+    default:
+      return Math.sign(v) * Math.round(Math.abs(v));
+  }
+}
+
+/**
+ * Convert an amount to integer minor units (e.g., 7.5 USD → 750)
+ */
+export function toMinorUnits(
+  amount: number,
+  currency?: string,
+  mode: RoundingMode = "half_up"
+): number {
+  return roundInteger(amount * 10 ** getCurrencyDecimals(currency), mode);
+}
+
+/**
+ * Convert integer minor units back to an amount (e.g., 750 → 7.5 USD)
+ */
+export function fromMinorUnits(minor: number, currency?: string): number {
+  const decimals = getCurrencyDecimals(currency);
+  return Number((minor / 10 ** decimals).toFixed(decimals));
+}
+
+/**
+ * Round an amount to the currency's minor unit
+ */
+export function roundMoney(amount: number, currency?: string, mode: RoundingMode = "half_up"): number {
+  return fromMinorUnits(toMinorUnits(amount, currency, mode), currency);
+}
+
+/**
+ * Check if an amount is a whole number of the currency's minor units (e.g., 0.99 USD, not 0.99 JPY)
+ */
+export function isWholeMinorUnits(amount: number, currency?: string): boolean {
+  return Number.isInteger(Number((amount * 10 ** getCurrencyDecimals(currency)).toFixed(6)));
+}
+
+/**
+ * Apply a price rounding (increment, then price ending) to an amount in minor units
+ * Zero and negative amounts are returned unchanged; an ending finer than the currency's
+ * minor unit (e.g., 0.99 in JPY) is not applied
+ */
+export function applyPriceRounding(
+  minor: number,
+  currency?: string,
+  rounding?: PriceRounding
+): number {
+  if (!rounding || minor <= 0) return minor;
+
+  const factor = 10 ** getCurrencyDecimals(currency);
+  let result = minor;
+
+  if (rounding.increment !== undefined) {
+    const step = Math.max(1, Math.round(rounding.increment * factor));
+    result = roundInteger(result / step, rounding.mode ?? "half_up") * step;
+  }
+
+  if (rounding.ending !== undefined && isWholeMinorUnits(rounding.ending, currency)) {
+    const ending = Math.round(rounding.ending * factor);
+    let candidate = Math.floor(result / factor) * factor + ending;
+    if (candidate < result) candidate += factor;
+    result = candidate;
+  }
+
+  return result;
+}
+
+/**
+ * Thrown when an amount cannot be converted to the evaluation currency
+ * The frontend and backend APIs turn it into an unavailable method (CURRENCY_UNSUPPORTED)
+ */
+export class CurrencyConversionError extends Error {
+  override name = "CurrencyConversionError";
+}
+
+/**
+ * Convert a config-currency amount to the evaluation currency
+ * Throws a CurrencyConversionError when the currencies differ and no exchange rate is available
+ */
+export function convertAmount(amount: number, scope: EvaluationScope = {}): number {
+  const { currency, baseCurrency, exchangeRates } = scope;
+  if (amount === 0 || !currency || !baseCurrency || currency === baseCurrency) {
+    return amount;
+  }
+
+  const rate = exchangeRates?.(baseCurrency, currency);
+  if (rate === undefined) {
+    throw new CurrencyConversionError(`No exchange rate from ${baseCurrency} to ${currency}`);
+  }
+
+  return amount * rate;
+}
+
+/**
+ * Entry of a per-currency amount, undefined when missing
+ */
+function amountFor(amount: Record<string, number>, currency?: string): number | undefined {
+  return currency === undefined ? undefined : amount[currency];
+}
+
+function missingAmountError(amount: Record<string, number>, scope: EvaluationScope): Error {
+  const currency = scope.currency ?? scope.baseCurrency ?? "config currency";
+  return new Error(`No ${currency} amount in ${JSON.stringify(amount)}`);
+}
+
+/**
+ * Resolve a money amount in the evaluation currency
+ * Uses the evaluation currency's own amount when set, else converts the config-currency amount
+ */
+export function resolveAmount(amount: MoneyAmount, scope: EvaluationScope = {}): number {
+  if (typeof amount === "number") {
+    return convertAmount(amount, scope);
+  }
+
+  const own = amountFor(amount, scope.currency);
+  if (own !== undefined) return own;
+
+  const base = amountFor(amount, scope.baseCurrency);
+  if (base === undefined) {
+    throw missingAmountError(amount, scope);
+  }
+
+  return convertAmount(base, scope);
+}
+
+/**
+ * Pick the evaluation currency's value of a per-currency number that does not
+ * scale with the currency (e.g., a percentage), falling back to the config currency's
+ */
+export function selectAmount(amount: MoneyAmount, scope: EvaluationScope = {}): number {
+  if (typeof amount === "number") return amount;
+
+  const value = amountFor(amount, scope.currency) ?? amountFor(amount, scope.baseCurrency);
+  if (value === undefined) {
+    throw missingAmountError(amount, scope);
+  }
+
+  return value;
+}
+
+/**
+ * Format an amount with the currency's decimal places (e.g., "25.00", "2500" for JPY)
+ */
+export function formatAmount(amount: number, currency?: string): string {
+  return amount.toFixed(getCurrencyDecimals(currency));
+}
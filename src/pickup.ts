@@ -0,0 +1,84 @@
+/**
+ * Pickup locations
+ * Stores and parcel lockers of pickup methods, filtered by distance from the shopper
+ */
+
+import type {
+  ShippingMethod,
+  EvaluationContext,
+  Coordinates,
+  ContextField,
+  DisplayPickupLocation,
+} from "./types.js";
+import { resolveLocalizedString } from "./utils.js";
+
+const EARTH_RADIUS_KM = 6371;
+
+function toRadians(degrees: number): number {
+  return (degrees * Math.PI) / 180;
+}
+
+/**
+ * Great-circle distance between two points in km (haversine)
+ */
+function distanceKm(from: Coordinates, to: Coordinates): number {
+  const dLat = toRadians(to.latitude - from.latitude);
+  const dLon = toRadians(to.longitude - from.longitude);
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(from.latitude)) * Math.cos(toRadians(to.latitude)) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(a));
+}
+
+/**
+ * Check if a method is collected at pickup locations
+ */
+function isPickupMethod(method: ShippingMethod): boolean {
+  return method.fulfillment === "pickup" || method.fulfillment === "locker";
+}
+
+/**
+ * Context fields a method's pickup locations depend on (the shopper location,
+ * when a radius limits them)
+ */
+export function pickupFields(method: ShippingMethod): ContextField[] {
+  if (!isPickupMethod(method)) return [];
+
+  const limited =
+    method.pickupRadius !== undefined ||
+    (method.pickupLocations ?? []).some((location) => location.radius !== undefined);
+  return limited ? ["coordinates"] : [];
+}
+
+/**
+ * Pickup locations of a method within reach of the shopper, nearest first
+ * Without context.coordinates, every location is eligible (in config order).
+ * Returns undefined for delivery methods and pickup methods without locations.
+ */
+export function findPickupLocations(
+  method: ShippingMethod,
+  context: EvaluationContext
+): DisplayPickupLocation[] | undefined {
+  if (!isPickupMethod(method) || !method.pickupLocations?.length) return undefined;
+
+  const { coordinates } = context;
+  const locations: DisplayPickupLocation[] = [];
+
+  for (const location of method.pickupLocations) {
+    const distance = coordinates ? distanceKm(coordinates, location.coordinates) : undefined;
+    const radius = location.radius ?? method.pickupRadius;
+    if (distance !== undefined && radius !== undefined && distance > radius) continue;
+
+    locations.push({
+      id: location.id,
+      name: resolveLocalizedString(location.name, context.locale),
+      address: location.address,
+      coordinates: location.coordinates,
+      openingHours: location.openingHours,
+      distance: distance === undefined ? undefined : Math.round(distance * 100) / 100,
+    });
+  }
+
+  // Stable: equal distances keep config order
+  return locations.sort((a, b) => (a.distance ?? 0) - (b.distance ?? 0));
+}
@@ -1,4 +1,38 @@
-import type { Pricing, EvaluationContext, CustomPricingPlugin } from "./types.js";
+import type {
+  Pricing,
+  EvaluationContext,
+  CustomPricingPlugin,
+  WeightBasis,
+  RateTablePricing,
+  MatrixPricing,
+  IncrementRounding,
+  Adjustment,
+  PriceBreakdownLine,
+  ShippingMethod,
+  PriceRounding,
+  Rule,
+  ContextField,
+} from "./types.js";
+import { evaluateConditions, matchesZone, type EvaluationScope } from "./conditions.js";
+import { resolveLocalizedString } from "./utils.js";
+import { resolveWeight } from "./weight.js";
+import {
+  findMissingContext,
+  findMissingField,
+  weightField,
+  zoneFields,
+} from "./requirements.js";
+import { applyPromotions } from "./promotions.js";
+import { pickupFields } from "./pickup.js";
+import {
+  roundMoney,
+  toMinorUnits,
+  fromMinorUnits,
+  applyPriceRounding,
+  resolveAmount,
+  convertAmount,
+  selectAmount,
+} from "./money.js";
 
 /**
  * Registry for custom pricing plugins
@@ -20,20 +54,24 @@ export function getPricingPlugin(name: string): CustomPricingPlugin | undefined
 }
 
 /**
- * Calculate shipping price based on pricing configuration
+ * Calculate the itemised base price for a pricing configuration
+ * Amounts are in the scope's evaluation currency.
+ * Returns undefined when the pricing has no rate for the context
+ * (e.g., a rate table key beyond the last bracket without overflow)
  */
-export function calculatePrice(
+export function calculatePriceBreakdown(
   pricing: Pricing,
-  context: EvaluationContext
-): number {
+  context: EvaluationContext,
+  scope: EvaluationScope = {}
+): PriceBreakdownLine[] | undefined {
   switch (pricing.type) {
     case "flat":
-      return calculateFlatPrice(pricing.amount);
+      return calculateFlatPrice(resolveAmount(pricing.amount, scope));
 
     case "item_based":
       return calculateItemBasedPrice(
-        pricing.firstItemPrice,
-        pricing.additionalItemPrice,
+        resolveAmount(pricing.firstItemPrice, scope),
+        resolveAmount(pricing.additionalItemPrice, scope),
         context.itemCount
       );
 
@@ -41,28 +79,79 @@ export function calculatePrice(
       return calculateValueBasedPrice(
         pricing.percentage,
         context.orderValue,
-        pricing.minAmount,
-        pricing.maxAmount
+        pricing.minAmount === undefined ? undefined : resolveAmount(pricing.minAmount, scope),
+        pricing.maxAmount === undefined ? undefined : resolveAmount(pricing.maxAmount, scope)
       );
 
     case "tiered":
       // For tiered pricing, this function doesn't handle rule matching
-      // The caller (engine) should match the rule first
-      return 0;
+      // The caller (engine) should match the rule first and use tierBreakdown()
+      return [{ type: "base", amount: 0 }];
+
+    case "dimensional":
+      return calculateDimensionalPrice(
+        resolveAmount(pricing.ratePerUnit, scope),
+        resolveWeight(context, pricing.basis ?? "billable", pricing.divisor) ?? 0,
+        pricing.minCharge === undefined ? undefined : resolveAmount(pricing.minCharge, scope)
+      );
+
+    case "rate_table":
+      return calculateRateTablePrice(pricing, context, scope);
+
+    case "matrix":
+      return calculateMatrixPrice(pricing, context, scope);
 
     case "custom":
-      return calculateCustomPrice(pricing.plugin, pricing.config, context);
+      return calculateCustomPrice(pricing.plugin, pricing.config, context, scope);
 
     default:
       throw new Error(`Unknown pricing type: ${(pricing as any).type}`);
   }
 }
 
+/**
+ * Calculate shipping price based on pricing configuration
+ * Returns undefined when the pricing has no rate for the context
+ */
+export function calculatePrice(
+  pricing: Pricing,
+  context: EvaluationContext,
+  scope: EvaluationScope = {}
+): number | undefined {
+  const breakdown = calculatePriceBreakdown(pricing, context, scope);
+  return breakdown ? sumBreakdown(breakdown) : undefined;
+}
+
+/**
+ * Sum the amounts of a breakdown
+ */
+export function sumBreakdown(breakdown: PriceBreakdownLine[]): number {
+  return breakdown.reduce((sum, line) => sum + line.amount, 0);
+}
+
+/**
+ * Base breakdown of a matched tier
+ */
+export function tierBreakdown(
+  rule: Rule,
+  locale?: string,
+  scope: EvaluationScope = {}
+): PriceBreakdownLine[] {
+  return [
+    {
+      type: "base",
+      id: rule.id,
+      label: resolveLocalizedString(rule.label, locale),
+      amount: resolveAmount(rule.price, scope),
+    },
+  ];
+}
+
 /**
  * Calculate flat rate pricing
  */
-function calculateFlatPrice(amount: number): number {
-  return amount;
+function calculateFlatPrice(amount: number): PriceBreakdownLine[] {
+  return [{ type: "base", amount }];
 }
 
 /**
@@ -73,14 +162,36 @@ function calculateItemBasedPrice(
   firstItemPrice: number,
   additionalItemPrice: number,
   itemCount: number
-): number {
+): PriceBreakdownLine[] {
   if (itemCount <= 0) {
-    return 0;
+    return [{ type: "base", amount: 0 }];
   }
-  if (itemCount === 1) {
-    return firstItemPrice;
+
+  const lines: PriceBreakdownLine[] = [
+    { type: "base", quantity: 1, unitAmount: firstItemPrice, amount: firstItemPrice },
+  ];
+
+  if (itemCount > 1) {
+    lines.push({
+      type: "per_item",
+      quantity: itemCount - 1,
+      unitAmount: additionalItemPrice,
+      amount: additionalItemPrice * (itemCount - 1),
+    });
   }
-  return firstItemPrice + additionalItemPrice * (itemCount - 1);
+
+  return lines;
+}
+
+/**
+ * Top up a breakdown to a minimum charge
+ */
+function withMinimumCharge(lines: PriceBreakdownLine[], minCharge?: number): PriceBreakdownLine[] {
+  const total = sumBreakdown(lines);
+  if (minCharge === undefined || total >= minCharge) {
+    return lines;
+  }
+  return [...lines, { type: "minimum_charge", amount: minCharge - total }];
 }
 
 /**
@@ -92,42 +203,362 @@ function calculateValueBasedPrice(
   orderValue: number,
   minAmount?: number,
   maxAmount?: number
-): number {
+): PriceBreakdownLine[] {
   let price = orderValue * (percentage / 100);
 
-  // Apply min clamp
-  if (minAmount !== undefined && price < minAmount) {
-    price = minAmount;
-  }
-
   // Apply max clamp
   if (maxAmount !== undefined && price > maxAmount) {
     price = maxAmount;
   }
 
-  return price;
+  // Apply min clamp
+  return withMinimumCharge([{ type: "base", amount: price }], minAmount);
+}
+
+/**
+ * Calculate dimensional pricing (rate per unit of billable weight)
+ * Formula: weight × ratePerUnit, at least minCharge
+ */
+function calculateDimensionalPrice(
+  ratePerUnit: number,
+  weight: number,
+  minCharge?: number
+): PriceBreakdownLine[] {
+  return withMinimumCharge(
+    [{ type: "base", quantity: weight, unitAmount: ratePerUnit, amount: weight * ratePerUnit }],
+    minCharge
+  );
+}
+
+/**
+ * Remove floating point noise before rounding (e.g., 2.0000000000000004)
+ */
+function stripFloatNoise(value: number): number {
+  return Number(value.toFixed(9));
+}
+
+/**
+ * Round a value to a multiple of the increment
+ */
+function roundToIncrement(value: number, rounding: IncrementRounding): number {
+  const steps = stripFloatNoise(value / rounding.increment);
+
+  switch (rounding.mode ?? "up") {
+    case "down":
+      return stripFloatNoise(Math.floor(steps) * rounding.increment);
+    case "nearest":
+      return stripFloatNoise(Math.round(steps) * rounding.increment);
+    case "up":
+    default:
+      return stripFloatNoise(Math.ceil(steps) * rounding.increment);
+  }
+}
+
+/**
+ * Resolve the lookup key of a rate table
+ * Order values are converted back to the config currency the brackets are defined in
+ */
+function resolveRateTableKey(
+  pricing: RateTablePricing,
+  context: EvaluationContext,
+  scope: EvaluationScope
+): number {
+  switch (pricing.key) {
+    case "weight":
+      return resolveWeight(context, pricing.basis, pricing.divisor) ?? 0;
+    case "value":
+      return context.orderValue / convertAmount(1, scope);
+    case "items":
+      return context.itemCount;
+    default:
+      throw new Error(`Unknown rate table key: ${(pricing as any).key}`);
+  }
+}
+
+/**
+ * Calculate rate table pricing
+ * Price of the first bracket with key <= upTo; beyond the last bracket,
+ * last price + overflow price × started overflow units
+ */
+function calculateRateTablePrice(
+  pricing: RateTablePricing,
+  context: EvaluationContext,
+  scope: EvaluationScope
+): PriceBreakdownLine[] | undefined {
+  const rawKey = resolveRateTableKey(pricing, context, scope);
+  const key = pricing.rounding ? roundToIncrement(rawKey, pricing.rounding) : rawKey;
+
+  const bracket = pricing.brackets.find((b) => key <= b.upTo);
+  if (bracket) {
+    return [{ type: "base", amount: resolveAmount(bracket.price, scope) }];
+  }
+
+  const last = pricing.brackets[pricing.brackets.length - 1];
+  if (!last || !pricing.overflow) {
+    return undefined;
+  }
+
+  const extraUnits = Math.ceil(stripFloatNoise((key - last.upTo) / pricing.overflow.every));
+  const overflowPrice = resolveAmount(pricing.overflow.price, scope);
+  return [
+    { type: "base", amount: resolveAmount(last.price, scope) },
+    {
+      type: "per_item",
+      quantity: extraUnits,
+      unitAmount: overflowPrice,
+      amount: extraUnits * overflowPrice,
+    },
+  ];
+}
+
+/**
+ * Calculate zone × weight matrix pricing
+ * Resolves the first row whose zone matches the destination, then the bracket for the weight
+ */
+function calculateMatrixPrice(
+  pricing: MatrixPricing,
+  context: EvaluationContext,
+  scope: EvaluationScope
+): PriceBreakdownLine[] | undefined {
+  const zones = scope.zones ?? [];
+  const row = pricing.rows.find((r) => {
+    const zone = zones.find((z) => z.id === r.zone);
+    return zone !== undefined && matchesZone(zone, context);
+  });
+  if (!row) {
+    return undefined;
+  }
+
+  const rawWeight = resolveWeight(context, pricing.basis, pricing.divisor) ?? 0;
+  const weight = pricing.rounding ? roundToIncrement(rawWeight, pricing.rounding) : rawWeight;
+
+  const index = pricing.brackets.findIndex((b) => weight >= b.min && weight <= b.max);
+  const price = index === -1 ? undefined : row.prices[index];
+  if (price === undefined || price === null) {
+    return undefined;
+  }
+
+  return [{ type: "base", id: row.zone, amount: resolveAmount(price, scope) }];
+}
+
+/**
+ * Order context in the config currency, as custom plugins see it
+ */
+function toConfigCurrency(context: EvaluationContext, scope: EvaluationScope): EvaluationContext {
+  const rate = convertAmount(1, scope);
+  if (rate === 1) return context;
+
+  return {
+    ...context,
+    orderValue: context.orderValue / rate,
+    currency: scope.baseCurrency,
+    items: context.items?.map((item) =>
+      item.unitPrice === undefined ? item : { ...item, unitPrice: item.unitPrice / rate }
+    ),
+  };
 }
 
 /**
  * Calculate custom pricing using registered plugin
+ * Plugins see the order in the config currency and may return a plain price or
+ * a price with its own breakdown, in the config currency
  */
 function calculateCustomPrice(
   pluginName: string,
   config: Record<string, unknown>,
-  context: EvaluationContext
-): number {
+  context: EvaluationContext,
+  scope: EvaluationScope
+): PriceBreakdownLine[] {
   const plugin = customPlugins.get(pluginName);
 
   if (!plugin) {
     throw new Error(`Custom pricing plugin not found: ${pluginName}`);
   }
 
-  return plugin(config, context);
+  const result = plugin(config, toConfigCurrency(context, scope));
+
+  if (typeof result === "number") {
+    return [{ type: "base", id: pluginName, amount: convertAmount(result, scope) }];
+  }
+
+  if (!result.breakdown) {
+    return [{ type: "base", id: pluginName, amount: convertAmount(result.price, scope) }];
+  }
+
+  return result.breakdown.map((line) => ({
+    ...line,
+    unitAmount: line.unitAmount === undefined ? undefined : convertAmount(line.unitAmount, scope),
+    amount: convertAmount(line.amount, scope),
+  }));
+}
+
+/**
+ * Final price with its itemised breakdown
+ */
+export interface PriceResult {
+  price: number;
+  breakdown: PriceBreakdownLine[];
+  originalPrice?: number; // Before promotions (when any applied)
+  appliedPromotions?: string[];
+}
+
+/**
+ * Calculate the amount of a single adjustment
+ */
+function calculateAdjustmentAmount(
+  adjustment: Adjustment,
+  basePrice: number,
+  context: EvaluationContext,
+  scope: EvaluationScope
+): number {
+  switch (adjustment.type) {
+    case "fixed":
+      return resolveAmount(adjustment.amount, scope);
+    case "percentage_of_shipping":
+      return basePrice * (selectAmount(adjustment.amount, scope) / 100);
+    case "percentage_of_order":
+      return context.orderValue * (selectAmount(adjustment.amount, scope) / 100);
+    case "per_item":
+      return resolveAmount(adjustment.amount, scope) * context.itemCount;
+    default:
+      throw new Error(`Unknown adjustment type: ${(adjustment as any).type}`);
+  }
+}
+
+/**
+ * Apply surcharges/discounts/taxes on top of a calculated base breakdown
+ * Each adjustment is gated by its own conditions; percentages apply to the base price.
+ */
+export function applyAdjustments(
+  base: PriceBreakdownLine[],
+  adjustments: Adjustment[] | undefined,
+  context: EvaluationContext,
+  scope: EvaluationScope = {}
+): PriceBreakdownLine[] {
+  const basePrice = sumBreakdown(base);
+  const breakdown: PriceBreakdownLine[] = [...base];
+
+  for (const adjustment of adjustments ?? []) {
+    if (!evaluateConditions(adjustment.conditions, context, scope)) continue;
+
+    const amount = calculateAdjustmentAmount(adjustment, basePrice, context, scope);
+    if (amount === 0) continue;
+
+    breakdown.push({
+      type: adjustment.category ?? (amount < 0 ? "discount" : "surcharge"),
+      id: adjustment.id,
+      label: resolveLocalizedString(adjustment.label, context.locale),
+      quantity: adjustment.type === "per_item" ? context.itemCount : undefined,
+      unitAmount: adjustment.type === "per_item" ? resolveAmount(adjustment.amount, scope) : undefined,
+      amount,
+    });
+  }
+
+  return breakdown;
+}
+
+/**
+ * Round a breakdown to the currency's minor unit and settle the final price
+ * Lines are summed in minor units. The price never goes below 0 (a minimum_charge
+ * line tops it up) and the price rounding difference is reported as a rounding line.
+ */
+function settleBreakdown(
+  lines: PriceBreakdownLine[],
+  currency?: string,
+  rounding?: PriceRounding
+): PriceResult {
+  const mode = rounding?.mode ?? "half_up";
+  const breakdown = lines.map((line) => ({ ...line, amount: roundMoney(line.amount, currency, mode) }));
+
+  let total = breakdown.reduce((sum, line) => sum + toMinorUnits(line.amount, currency), 0);
+  if (total < 0) {
+    breakdown.push({ type: "minimum_charge", amount: fromMinorUnits(-total, currency) });
+    total = 0;
+  }
+
+  const rounded = applyPriceRounding(total, currency, rounding);
+  if (rounded !== total) {
+    breakdown.push({ type: "rounding", amount: fromMinorUnits(rounded - total, currency) });
+  }
+
+  return { price: fromMinorUnits(rounded, currency), breakdown };
+}
+
+/**
+ * Apply a method's adjustments to its base breakdown, round the result and
+ * apply promotions to the rounded price
+ * The method rounding overrides the config rounding
+ */
+export function finalizeMethodPrice(
+  method: ShippingMethod,
+  base: PriceBreakdownLine[],
+  context: EvaluationContext,
+  scope: EvaluationScope = {},
+  tierId?: string
+): PriceResult {
+  const settled = settleBreakdown(
+    applyAdjustments(base, method.adjustments, context, scope),
+    scope.currency,
+    method.rounding ?? scope.rounding
+  );
+
+  const promoted = applyPromotions(settled.price, method, tierId, context, scope);
+  if (promoted.appliedPromotions.length === 0) return settled;
+
+  return {
+    price: promoted.price,
+    breakdown: [...settled.breakdown, ...promoted.lines],
+    originalPrice: settled.price,
+    appliedPromotions: promoted.appliedPromotions,
+  };
+}
+
+/**
+ * Context fields a pricing configuration depends on
+ */
+function pricingFields(pricing: Pricing, scope: EvaluationScope): ContextField[] {
+  switch (pricing.type) {
+    case "dimensional":
+      return [weightField(pricing.basis ?? "billable")];
+
+    case "rate_table":
+      return pricing.key === "weight" ? [weightField(pricing.basis)] : [];
+
+    case "matrix":
+      return [...zoneFields(pricing.rows.map((row) => row.zone), scope.zones), weightField(pricing.basis)];
+
+    case "custom":
+      return customPlugins.get(pricing.plugin)?.requires?.(pricing.config) ?? [];
+
+    default:
+      return [];
+  }
+}
+
+/**
+ * Find a context field a method needs but the context is missing (strict mode only)
+ * Covers method and adjustment conditions, non-tiered pricing and the pickup radius;
+ * tier criteria are checked when rules are evaluated
+ */
+export function findMissingMethodContext(
+  method: ShippingMethod,
+  context: EvaluationContext,
+  scope: EvaluationScope = {}
+): ContextField | undefined {
+  if (!scope.strict) return undefined;
+
+  return (
+    findMissingContext(method.conditions, context, scope) ??
+    (method.adjustments ?? [])
+      .map((adjustment) => findMissingContext(adjustment.conditions, context, scope))
+      .find((field) => field !== undefined) ??
+    findMissingField([...pricingFields(method.pricing, scope), ...pickupFields(method)], context, scope)
+  );
 }
 
 /**
  * Built-in weight-based pricing plugin
- * Config: { ratePerKg: number, minCharge?: number }
+ * Config: { ratePerKg: number, minCharge?: number, basis?: WeightBasis, divisor?: number }
  *
  * @example
  * ```typescript
@@ -140,8 +571,12 @@ function calculateCustomPrice(
 export const weightBasedPlugin: CustomPricingPlugin = (config, context) => {
   const ratePerKg = config.ratePerKg as number;
   const minCharge = (config.minCharge as number) || 0;
-  const weight = context.weight || 0;
+  const basis = config.basis as WeightBasis | undefined;
+  const divisor = config.divisor as number | undefined;
+  const weight = resolveWeight(context, basis, divisor) ?? 0;
 
   const calculated = weight * ratePerKg;
   return Math.max(calculated, minCharge);
 };
+
+weightBasedPlugin.requires = (config) => [weightField(config.basis as WeightBasis | undefined)];
@@ -0,0 +1,124 @@
+/**
+ * Promotions
+ * Coupon, customer segment and time-limited shipping discounts,
+ * applied on top of the final method price
+ */
+
+import type {
+  Promotion,
+  ShippingMethod,
+  EvaluationContext,
+  PriceBreakdownLine,
+} from "./types.js";
+import { evaluateConditions, type EvaluationScope } from "./conditions.js";
+import { findMissingContext } from "./requirements.js";
+import { toMinorUnits, fromMinorUnits, resolveAmount, selectAmount } from "./money.js";
+import { resolveLocalizedString } from "./utils.js";
+
+/**
+ * Price after promotions
+ */
+export interface PromotionResult {
+  price: number;
+  lines: PriceBreakdownLine[]; // One promotion line per applied promotion
+  appliedPromotions: string[];
+}
+
+/**
+ * Check if a promotion targets a method (or the method's tier)
+ */
+function targetsMethod(promotion: Promotion, method: ShippingMethod, tierId?: string): boolean {
+  if (!promotion.methods || promotion.methods.length === 0) return true;
+
+  return promotion.methods.some(
+    (target) => target === method.id || (tierId !== undefined && target === `${method.id}:${tierId}`)
+  );
+}
+
+/**
+ * Check if the context qualifies for a promotion (coupon, segment, date window)
+ * In strict mode, a date window without an order date never qualifies
+ */
+function qualifies(
+  promotion: Promotion,
+  context: EvaluationContext,
+  scope: EvaluationScope
+): boolean {
+  if (promotion.couponCodes && promotion.couponCodes.length > 0) {
+    const entered = (context.couponCodes ?? []).map((code) => code.toUpperCase());
+    if (!promotion.couponCodes.some((code) => entered.includes(code.toUpperCase()))) {
+      return false;
+    }
+  }
+
+  if (promotion.segments && promotion.segments.length > 0) {
+    const segments = context.customer?.segments ?? [];
+    if (!promotion.segments.some((segment) => segments.includes(segment))) {
+      return false;
+    }
+  }
+
+  if (promotion.date) {
+    const conditions = { date: promotion.date };
+    if (findMissingContext(conditions, context, scope) !== undefined) return false;
+    if (!evaluateConditions(conditions, context, scope)) return false;
+  }
+
+  return true;
+}
+
+/**
+ * Discount of a promotion in minor units, before capping at the price
+ */
+function discountOf(promotion: Promotion, minor: number, scope: EvaluationScope): number {
+  switch (promotion.type) {
+    case "free_shipping":
+      return minor;
+    case "percentage":
+      return toMinorUnits(
+        (fromMinorUnits(minor, scope.currency) * selectAmount(promotion.value ?? 0, scope)) / 100,
+        scope.currency
+      );
+    case "fixed":
+      return toMinorUnits(resolveAmount(promotion.value ?? 0, scope), scope.currency);
+    default:
+      throw new Error(`Unknown promotion type: ${(promotion as any).type}`);
+  }
+}
+
+/**
+ * Apply the promotions of the scope to a method price
+ * Each promotion discounts the price left by the previous ones, never below 0;
+ * promotions that don't change the price are not reported as applied
+ */
+export function applyPromotions(
+  price: number,
+  method: ShippingMethod,
+  tierId: string | undefined,
+  context: EvaluationContext,
+  scope: EvaluationScope = {}
+): PromotionResult {
+  const currency = scope.currency;
+  let minor = toMinorUnits(price, currency);
+  const lines: PriceBreakdownLine[] = [];
+  const appliedPromotions: string[] = [];
+
+  for (const promotion of scope.promotions ?? []) {
+    if (minor <= 0) break;
+    if (!targetsMethod(promotion, method, tierId) || !qualifies(promotion, context, scope)) continue;
+
+    const discount = Math.min(minor, discountOf(promotion, minor, scope));
+    if (discount <= 0) continue;
+
+    minor -= discount;
+    appliedPromotions.push(promotion.id);
+    lines.push({
+      type: "promotion",
+      id: promotion.id,
+      label: resolveLocalizedString(promotion.label, context.locale),
+      amount: -fromMinorUnits(discount, currency),
+    });
+  }
+
+  return { price: fromMinorUnits(minor, currency), lines, appliedPromotions };
+}
@@ -0,0 +1,227 @@
+/**
+ * Signed shipping quotes
+ * HMAC-signed, expiring tokens for a displayed shipping method, so the backend
+ * can trust a quote instead of re-evaluating the config (WebCrypto, edge-ready)
+ */
+
+import type {
+  ShippingConfig,
+  EvaluationContext,
+  DisplayShippingMethod,
+  ShippingQuote,
+  QuoteSigningOptions,
+  QuoteVerificationOptions,
+  QuoteVerificationResult,
+} from "./types.js";
+import { stableStringify } from "./utils.js";
+import { getConfigRevision } from "./revision.js";
+
+// Web platform APIs (Workers, browsers, Node.js 18+); declared here as the
+// package compiles without DOM or Node.js typings
+interface HmacKey {
+  readonly type: string;
+}
+
+interface WebCrypto {
+  subtle: {
+    importKey(
+      format: "raw",
+      keyData: Uint8Array,
+      algorithm: { name: "HMAC"; hash: "SHA-256" },
+      extractable: boolean,
+      usages: ("sign" | "verify")[]
+    ): Promise<HmacKey>;
+    sign(algorithm: "HMAC", key: HmacKey, data: Uint8Array): Promise<ArrayBuffer>;
+    verify(
+      algorithm: "HMAC",
+      key: HmacKey,
+      signature: Uint8Array,
+      data: Uint8Array
+    ): Promise<boolean>;
+    digest(algorithm: "SHA-256", data: Uint8Array): Promise<ArrayBuffer>;
+  };
+}
+
+declare const TextEncoder: new () => { encode(input: string): Uint8Array };
+declare const TextDecoder: new () => { decode(input: Uint8Array): string };
+declare function btoa(data: string): string;
+declare function atob(data: string): string;
+
+const DEFAULT_TTL_SECONDS = 900;
+
+// Kept in a variable so bundlers for edge runtimes, which have the global, leave it alone
+const NODE_CRYPTO_MODULE = "node:crypto";
+
+let nodeCrypto: Promise<WebCrypto> | undefined;
+
+// Internal helpers
+
+// Node.js 18 only exposes WebCrypto as a global behind a flag; fall back to node:crypto
+function getCrypto(): Promise<WebCrypto> {
+  const global = (globalThis as { crypto?: WebCrypto }).crypto;
+  if (global) return Promise.resolve(global);
+
+  nodeCrypto ??= import(NODE_CRYPTO_MODULE).then(
+    (module: { webcrypto: WebCrypto }) => module.webcrypto
+  );
+  return nodeCrypto;
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = "";
+  for (const byte of bytes) binary += String.fromCharCode(byte);
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function fromBase64Url(text: string): Uint8Array {
+  const base64 = text.replace(/-/g, "+").replace(/_/g, "/");
+  const binary = atob(base64.padEnd(Math.ceil(base64.length / 4) * 4, "="));
+  return Uint8Array.from(binary, (char) => char.charCodeAt(0));
+}
+
+async function importSecret(secret: string): Promise<HmacKey> {
+  const crypto = await getCrypto();
+  return crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign", "verify"]
+  );
+}
+
+function parseQuote(payload: string): ShippingQuote | undefined {
+  try {
+    const quote = JSON.parse(new TextDecoder().decode(fromBase64Url(payload)));
+    const valid =
+      typeof quote?.contextHash === "string" &&
+      typeof quote.configRevision === "string" &&
+      typeof quote.expiresAt === "string" &&
+      typeof quote.method?.id === "string";
+    return valid ? (quote as ShippingQuote) : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Hash an order context for a quote (SHA-256, base64url)
+ * orderDate is left out, as the quote expiry bounds time instead
+ */
+async function hashEvaluationContext(context: EvaluationContext): Promise<string> {
+  const { orderDate: _orderDate, ...rest } = context;
+  const data = new TextEncoder().encode(stableStringify(rest));
+  const crypto = await getCrypto();
+  const digest = await crypto.subtle.digest("SHA-256", data);
+  return toBase64Url(new Uint8Array(digest));
+}
+
+/**
+ * Sign a quote for a displayed shipping method
+ *
+ * @param config - Configuration the method was evaluated with
+ * @param method - Chosen method from getShippingMethodsForDisplay()
+ * @param context - Order context the method was evaluated with
+ * @param options - HMAC secret and time to live
+ * @returns Token "<payload>.<signature>" (base64url)
+ *
+ * @example
+ * ```typescript
+ * const token = await createShippingQuote(config, method, context, { secret: env.QUOTE_SECRET });
+ * ```
+ */
+export async function createShippingQuote(
+  config: ShippingConfig,
+  method: DisplayShippingMethod,
+  context: EvaluationContext,
+  options: QuoteSigningOptions
+): Promise<string> {
+  const issuedAt = options.now ?? new Date();
+  const ttl = options.ttlSeconds ?? DEFAULT_TTL_SECONDS;
+
+  const quote: ShippingQuote = {
+    method,
+    contextHash: await hashEvaluationContext(context),
+    configRevision: getConfigRevision(config),
+    issuedAt: issuedAt.toISOString(),
+    expiresAt: new Date(issuedAt.getTime() + ttl * 1000).toISOString(),
+  };
+
+  const payload = toBase64Url(new TextEncoder().encode(JSON.stringify(quote)));
+  const key = await importSecret(options.secret);
+  const crypto = await getCrypto();
+  const signature = await crypto.subtle.sign("HMAC", key, new TextEncoder().encode(payload));
+
+  return `${payload}.${toBase64Url(new Uint8Array(signature))}`;
+}
+
+/**
+ * Verify a quote token against the current order context
+ * Accepts the quote only if it is signed, unexpired, for the same config
+ * revision and the context hash still matches
+ *
+ * @param config - Current shipping configuration
+ * @param token - Token from createShippingQuote()
+ * @param context - Current order context
+ * @param options - HMAC secret
+ * @returns Result discriminated by status ("ok" carries the quoted method)
+ *
+ * @example
+ * ```typescript
+ * const result = await verifyShippingQuote(config, body.quoteToken, context, { secret: env.QUOTE_SECRET });
+ * if (result.status !== "ok") {
+ *   throw new Error(`Invalid shipping quote: ${result.status}`);
+ * }
+ * const total = cart.total + result.quote.method.price;
+ * ```
+ */
+export async function verifyShippingQuote(
+  config: ShippingConfig,
+  token: string,
+  context: EvaluationContext,
+  options: QuoteVerificationOptions
+): Promise<QuoteVerificationResult> {
+  const [payload, signature, ...rest] = token.split(".");
+  if (!payload || !signature || rest.length > 0) {
+    return { status: "malformed" };
+  }
+
+  let signatureBytes: Uint8Array;
+  try {
+    signatureBytes = fromBase64Url(signature);
+  } catch {
+    return { status: "malformed" };
+  }
+
+  const key = await importSecret(options.secret);
+  const crypto = await getCrypto();
+  const signed = await crypto.subtle.verify(
+    "HMAC",
+    key,
+    signatureBytes,
+    new TextEncoder().encode(payload)
+  );
+  if (!signed) {
+    return { status: "invalid_signature" };
+  }
+
+  const quote = parseQuote(payload);
+  if (!quote) {
+    return { status: "malformed" };
+  }
+
+  const now = options.now ?? new Date();
+  if (now.getTime() >= new Date(quote.expiresAt).getTime()) {
+    return { status: "expired", quote };
+  }
+
+  if (quote.configRevision !== getConfigRevision(config)) {
+    return { status: "config_mismatch", quote };
+  }
+
+  if (quote.contextHash !== (await hashEvaluationContext(context))) {
+    return { status: "context_mismatch", quote };
+  }
+
+  return { status: "ok", quote };
+}
@@ -0,0 +1,146 @@
+/**
+ * Context requirements
+ * Which context fields conditions depend on, checked in strict mode
+ * (fields the engine would otherwise default: order date, weight, dimensions, items, customer,
+ * coordinates, region, postal code)
+ */
+
+import type {
+  Conditions,
+  ContextField,
+  EvaluationContext,
+  StrictMode,
+  WeightBasis,
+  UnavailableReason,
+  Zone,
+} from "./types.js";
+import { evaluateConditions, type EvaluationScope } from "./conditions.js";
+import { getActualWeight, getVolumetricWeight } from "./weight.js";
+
+/**
+ * Check if the strict policy covers a context field
+ */
+function isStrictFor(field: ContextField, strict?: StrictMode): boolean {
+  if (typeof strict === "boolean") return strict;
+  return strict?.[field] === true;
+}
+
+/**
+ * Check if the context carries nothing for a field
+ */
+function isMissing(field: ContextField, context: EvaluationContext): boolean {
+  switch (field) {
+    case "orderDate":
+      return context.orderDate === undefined;
+    case "weight":
+      return getActualWeight(context) === undefined;
+    case "dimensions":
+      return getVolumetricWeight(context) === undefined;
+    case "items":
+      return context.items === undefined;
+    case "customer":
+      return context.customer === undefined;
+    case "coordinates":
+      return context.coordinates === undefined;
+    case "region":
+      return context.region === undefined;
+    case "postalCode":
+      return context.postalCode === undefined;
+    default:
+      return false;
+  }
+}
+
+/**
+ * Context field a weight basis depends on
+ * Billable weight needs the actual weight; volumetric weight alone only raises it
+ */
+export function weightField(basis?: WeightBasis): ContextField {
+  return basis === "volumetric" ? "dimensions" : "weight";
+}
+
+/**
+ * Context fields the areas of zones are narrowed by (region, postal code)
+ */
+export function zoneFields(zoneIds: string[], zones: Zone[] = []): ContextField[] {
+  const areas = zones.filter((zone) => zoneIds.includes(zone.id)).flatMap((zone) => zone.areas);
+  const fields: ContextField[] = [];
+
+  if (areas.some((area) => area.region !== undefined)) fields.push("region");
+  if (areas.some((area) => area.postalCode !== undefined)) fields.push("postalCode");
+
+  return fields;
+}
+
+/**
+ * Context fields referenced by conditions, composed conditions aside
+ */
+function conditionFields(conditions: Conditions, scope: EvaluationScope): ContextField[] {
+  const fields: ContextField[] = [];
+  const { geo } = conditions;
+
+  if (geo?.region) fields.push("region");
+  if (geo?.postalCode) fields.push("postalCode");
+  if (geo?.zone) {
+    const zoneIds = [...(geo.zone.include ?? []), ...(geo.zone.exclude ?? [])];
+    fields.push(...zoneFields(zoneIds, scope.zones));
+  }
+
+  if (conditions.order?.weight) fields.push(weightField(conditions.order.weight.basis));
+  if (conditions.cart) fields.push("items");
+  if (conditions.customer) fields.push("customer");
+  if (conditions.date || conditions.schedule) fields.push("orderDate");
+
+  return fields;
+}
+
+/**
+ * Find the first field the context is missing that the strict policy covers
+ */
+export function findMissingField(
+  fields: ContextField[],
+  context: EvaluationContext,
+  scope: EvaluationScope
+): ContextField | undefined {
+  return fields.find((field) => isStrictFor(field, scope.strict) && isMissing(field, context));
+}
+
+/**
+ * Find a context field conditions need but the context is missing (strict mode only)
+ * An anyOf only needs a field when none of its alternatives is met without it
+ */
+export function findMissingContext(
+  conditions: Conditions | undefined,
+  context: EvaluationContext,
+  scope: EvaluationScope = {}
+): ContextField | undefined {
+  if (!conditions || !scope.strict) return undefined;
+
+  const own = findMissingField(conditionFields(conditions, scope), context, scope);
+  if (own !== undefined) return own;
+
+  for (const child of conditions.allOf ?? []) {
+    const missing = findMissingContext(child, context, scope);
+    if (missing !== undefined) return missing;
+  }
+
+  if (conditions.anyOf && conditions.anyOf.length > 0) {
+    const missing = conditions.anyOf.map((child) => findMissingContext(child, context, scope));
+    const met = conditions.anyOf.some(
+      (child, i) => missing[i] === undefined && evaluateConditions(child, context, scope)
+    );
+    if (!met) {
+      const field = missing.find((field) => field !== undefined);
+      if (field !== undefined) return field;
+    }
+  }
+
+  return conditions.not ? findMissingContext(conditions.not, context, scope) : undefined;
+}
+
+/**
+ * Reasons for a missing context field (empty when nothing is missing)
+ */
+export function missingContextReasons(field: ContextField | undefined): UnavailableReason[] {
+  return field === undefined ? [] : [{ code: "MISSING_CONTEXT", field }];
+}
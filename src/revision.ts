@@ -0,0 +1,90 @@
+/**
+ * Config revisions
+ * Content-hash identity of a configuration and a small in-memory history,
+ * so orders can be priced against the revision that quoted them
+ */
+
+import type { ShippingConfig, ConfigHistory } from "./types.js";
+import { stableStringify } from "./utils.js";
+
+const DEFAULT_HISTORY_SIZE = 10;
+
+const FNV_OFFSET = 0xcbf29ce484222325n;
+const FNV_PRIME = 0x100000001b3n;
+const MASK_64 = 0xffffffffffffffffn;
+
+// Configs are treated as immutable once evaluated
+const revisionCache = new WeakMap<ShippingConfig, string>();
+
+/**
+ * 64-bit FNV-1a hash of a string, as 16 hex digits
+ */
+function fnv1a64(text: string): string {
+  let hash = FNV_OFFSET;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= BigInt(text.charCodeAt(i));
+    hash = (hash * FNV_PRIME) & MASK_64;
+  }
+  return hash.toString(16).padStart(16, "0");
+}
+
+/**
+ * Revision ID of a configuration (content hash, independent of key order)
+ *
+ * @example
+ * ```typescript
+ * getConfigRevision(config); // "3f9a0c6e1b2d4a57"
+ * ```
+ */
+export function getConfigRevision(config: ShippingConfig): string {
+  let revision = revisionCache.get(config);
+  if (revision === undefined) {
+    revision = fnv1a64(stableStringify(config));
+    revisionCache.set(config, revision);
+  }
+  return revision;
+}
+
+/**
+ * Create an in-memory history of configurations, keyed by revision
+ * Keeps the most recent `size` revisions (default 10)
+ *
+ * @example
+ * ```typescript
+ * const history = createConfigHistory();
+ * history.add(config);
+ *
+ * // Later, after a config update
+ * getShippingMethodById(latestConfig, order.shippingMethodId, context, {
+ *   revision: order.shippingRevision,
+ *   history,
+ * });
+ * ```
+ */
+export function createConfigHistory(size: number = DEFAULT_HISTORY_SIZE): ConfigHistory {
+  const configs = new Map<string, ShippingConfig>();
+
+  return {
+    add(config) {
+      const revision = getConfigRevision(config);
+
+      // Re-adding moves the revision to the most recent position
+      configs.delete(revision);
+      configs.set(revision, config);
+
+      while (configs.size > size) {
+        configs.delete(configs.keys().next().value as string);
+      }
+
+      return revision;
+    },
+
+    get(revision) {
+      return configs.get(revision);
+    },
+
+    revisions() {
+      return [...configs.keys()];
+    },
+  };
+}
@@ -0,0 +1,226 @@
+/**
+ * Split shipments
+ * Groups cart line items into shipments by origin and shipping class, and
+ * evaluates shipping methods per shipment
+ */
+
+import type {
+  ShippingConfig,
+  EvaluationContext,
+  EvaluationOptions,
+  BackendEvaluationOptions,
+  CartItem,
+  Shipment,
+  ShipmentsForDisplay,
+  ShipmentSelection,
+  ValidatedShipments,
+} from "./types.js";
+import { createEvaluationScope } from "./conditions.js";
+import { getShippingMethodsForDisplay } from "./frontend.js";
+import { getShippingMethodById } from "./backend.js";
+import { roundMoney, toMinorUnits, fromMinorUnits } from "./money.js";
+
+const DEFAULT_SHIPMENT_ID = "default";
+
+/**
+ * Shipment ID of a line item: its origin and shipping class
+ * Both parts are always keyed, so an origin and a shipping class of the same name stay apart
+ */
+function shipmentIdOf(item: CartItem): string {
+  if (item.origin === undefined && item.shippingClass === undefined) return DEFAULT_SHIPMENT_ID;
+  return `${item.origin ?? ""}/${item.shippingClass ?? ""}`;
+}
+
+/**
+ * Ship from the items' origin location, when they carry one
+ */
+function shipFrom(context: EvaluationContext, origin: string | undefined): EvaluationContext {
+  if (origin === undefined) return context;
+
+  const { origins: _origins, ...rest } = context;
+  return { ...rest, origin };
+}
+
+/**
+ * Narrow the order context to a shipment's items
+ * Order value comes from unit prices, or is split by item count when items carry
+ * none. Parcel weight and dimensions give way to the items' own; when no item
+ * carries any, the weight is split by item count and the dimensions are kept
+ */
+function narrowContext(
+  context: EvaluationContext,
+  items: CartItem[],
+  allItems: CartItem[]
+): EvaluationContext {
+  const { weight, dimensions, ...rest } = context;
+  const itemCount = items.reduce((sum, item) => sum + item.quantity, 0);
+  const totalCount = allItems.reduce((sum, item) => sum + item.quantity, 0);
+  const share = totalCount > 0 ? itemCount / totalCount : 0;
+
+  let orderValue: number;
+  if (allItems.every((item) => item.unitPrice !== undefined)) {
+    orderValue = items.reduce((sum, item) => sum + (item.unitPrice ?? 0) * item.quantity, 0);
+  } else {
+    orderValue = context.orderValue * share;
+  }
+
+  const narrowed: EvaluationContext = {
+    ...rest,
+    orderValue: roundMoney(orderValue, context.currency),
+    itemCount,
+    items,
+  };
+  if (weight !== undefined && allItems.every((item) => item.weight === undefined)) {
+    narrowed.weight = weight * share;
+  }
+  if (dimensions !== undefined && allItems.every((item) => item.dimensions === undefined)) {
+    narrowed.dimensions = dimensions;
+  }
+  return narrowed;
+}
+
+/**
+ * Sum prices in minor units
+ */
+function sumPrices(prices: number[], currency?: string): number {
+  const minor = prices.reduce((sum, price) => sum + toMinorUnits(price, currency), 0);
+  return fromMinorUnits(minor, currency);
+}
+
+/**
+ * Split an order into shipments, one per origin and shipping class of its line items
+ * An order without line items, or whose items all ship together, is a single
+ * shipment with the order context unchanged (except for the items' origin, which
+ * becomes the context origin)
+ *
+ * @example
+ * ```typescript
+ * splitShipments({
+ *   ...context,
+ *   items: [
+ *     { sku: "LAMP", quantity: 1, origin: "east" },
+ *     { sku: "SOFA", quantity: 1, origin: "east", shippingClass: "furniture" },
+ *   ],
+ * });
+ * // [{ id: "east/", ... }, { id: "east/furniture", ... }]
+ * ```
+ */
+export function splitShipments(context: EvaluationContext): Shipment[] {
+  const allItems = context.items ?? [];
+
+  const groups = new Map<string, CartItem[]>();
+  for (const item of allItems) {
+    const id = shipmentIdOf(item);
+    groups.set(id, [...(groups.get(id) ?? []), item]);
+  }
+
+  if (groups.size <= 1) {
+    const [first] = allItems;
+    return [
+      {
+        id: first ? shipmentIdOf(first) : DEFAULT_SHIPMENT_ID,
+        origin: first?.origin,
+        shippingClass: first?.shippingClass,
+        items: allItems,
+        context: shipFrom(context, first?.origin),
+      },
+    ];
+  }
+
+  return [...groups].map(([id, items]) => ({
+    id,
+    origin: items[0].origin,
+    shippingClass: items[0].shippingClass,
+    items,
+    context: shipFrom(narrowContext(context, items, allItems), items[0].origin),
+  }));
+}
+
+/**
+ * Get shipping methods for every shipment of an order
+ * Returns the options of each shipment and the total of the cheapest ones
+ *
+ * @param config - Validated shipping configuration
+ * @param context - Order context with line items (origin, shippingClass)
+ * @param options - Evaluation options, as for getShippingMethodsForDisplay()
+ *
+ * @example
+ * ```typescript
+ * const { shipments, total } = getShipmentsForDisplay(config, context);
+ * for (const shipment of shipments) {
+ *   renderShipment(shipment.items, shipment.methods);
+ * }
+ * ```
+ */
+export function getShipmentsForDisplay(
+  config: ShippingConfig,
+  context: EvaluationContext,
+  options: EvaluationOptions = {}
+): ShipmentsForDisplay {
+  const { currency } = createEvaluationScope(config, context, options);
+
+  const shipments = splitShipments(context).map((shipment) => ({
+    ...shipment,
+    methods: getShippingMethodsForDisplay(config, shipment.context, options),
+  }));
+
+  const cheapest = shipments.map((shipment) => {
+    const prices = shipment.methods.filter((m) => m.available).map((m) => m.price);
+    return prices.length > 0 ? Math.min(...prices) : undefined;
+  });
+
+  const total = cheapest.every((price) => price !== undefined)
+    ? sumPrices(cheapest as number[], currency)
+    : undefined;
+
+  return { shipments, total, currency };
+}
+
+/**
+ * Validate one selected method per shipment for checkout
+ * The order is split exactly as for getShipmentsForDisplay(), and each selection is
+ * validated with getShippingMethodById() against its shipment's context
+ *
+ * @param config - Validated shipping configuration
+ * @param context - Order context with line items
+ * @param selection - Method ID per shipment ID
+ * @param options - Backend options (strict by default, tier fallback, config revision)
+ * @throws Error if options.revision is not the config revision nor in options.history
+ *
+ * @example
+ * ```typescript
+ * const result = validateShipmentSelection(config, context, {
+ *   "east/": "standard:tier_free",
+ *   "east/furniture": "freight",
+ * });
+ * if (!result.valid) {
+ *   throw new Error("Invalid shipping selection");
+ * }
+ * ```
+ */
+export function validateShipmentSelection(
+  config: ShippingConfig,
+  context: EvaluationContext,
+  selection: ShipmentSelection,
+  options: BackendEvaluationOptions = {}
+): ValidatedShipments {
+  const { currency } = createEvaluationScope(config, context, options);
+
+  const shipments = splitShipments(context).map((shipment) => {
+    const id = selection[shipment.id];
+    const method =
+      id === undefined ? undefined : getShippingMethodById(config, id, shipment.context, options);
+    return { ...shipment, method };
+  });
+
+  const shipmentIds = new Set(shipments.map((shipment) => shipment.id));
+  const valid =
+    shipments.every((shipment) => shipment.method?.available === true) &&
+    Object.keys(selection).every((id) => shipmentIds.has(id));
+
+  const prices = shipments
+    .filter((shipment) => shipment.method?.available)
+    .map((shipment) => shipment.method?.price ?? 0);
+
+  return { valid, shipments, total: sumPrices(prices, currency), currency };
+}
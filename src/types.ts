@@ -7,31 +7,206 @@ export interface RangeNumber {
   max?: number;
 }
 
+// Amount in the config currency, or per-currency amounts keyed by ISO-4217 code
+// e.g., 4.99 or { USD: 4.99, EUR: 4.5 } (per-currency amounts must include the config currency)
+// Currencies without their own amount are converted from the config currency
+export type MoneyAmount = number | Record<string, number>;
+
+export interface MoneyRange {
+  min?: MoneyAmount;
+  max?: MoneyAmount;
+}
+
 export interface EstimatedDays {
   min: number;
   max: number;
 }
 
+export type Weekday = "mon" | "tue" | "wed" | "thu" | "fri" | "sat" | "sun";
+
+// Calendar entry
+// - "2024-12-25": a fixed date
+// - "12-25": the same date every year (MM-DD)
+// - { from: "12-23", to: "01-02" }: an inclusive range of fixed or annual dates
+//   (both ends of the same kind; annual ranges may wrap the new year)
+export type CalendarEntry = string | { from: string; to: string };
+
+// Named set of dates (e.g., "us_holidays", "peak_blackout")
+export interface Calendar {
+  id: string;
+  name?: LocalizedString;
+  dates: CalendarEntry[];
+}
+
+// Warehouse schedule used to turn estimatedDays into delivery dates
+// Orders placed after the cut-off, on a non-working day or a holiday ship the next working day;
+// estimatedDays then count working days from the ship date
+export interface DeliverySchedule {
+  timezone?: string; // IANA time zone of the warehouse, default "UTC"
+  cutoffTime?: string; // Local "HH:mm"
+  workingDays?: Weekday[]; // Default: mon–fri
+  holidays?: string[]; // ISO 8601 dates (e.g., "2024-12-25")
+  calendars?: string[]; // Calendar IDs whose dates are not working days
+}
+
+// Fulfilment location (warehouse, store) orders ship from
+// Its cut-off, working days and time zone override the delivery schedule for orders it ships
+export interface FulfillmentLocation {
+  id: string;
+  name?: LocalizedString;
+  country: string; // ISO 3166-1 alpha-2
+  region?: string; // ISO 3166-2 subdivision
+  timezone?: string; // IANA time zone
+  cutoffTime?: string; // Local "HH:mm"
+  workingDays?: Weekday[];
+  methods?: string[]; // Method IDs shipped from here (default: every method)
+}
+
+// Delivery dates as ISO 8601 dates in the schedule time zone
+export interface DeliveryEstimate {
+  shipDate: string;
+  earliestDate: string;
+  latestDate: string;
+}
+
 export interface GeoCountry {
   include?: string[]; // ISO 3166-1 alpha-2
   exclude?: string[];
 }
 
+export interface GeoRegion {
+  include?: string[]; // ISO 3166-2 subdivision (e.g., "US-AK", "CA-NU")
+  exclude?: string[];
+}
+
+// Postal code pattern
+// - "90210"                          exact match (case and whitespace insensitive)
+// - { prefix: "995" }                starts with prefix
+// - { range: { min: "96701", max: "96898" } }  numeric range (inclusive)
+// - { regex: "^H0[A-Z]" }            regular expression (case insensitive)
+export type PostalCodePattern =
+  | string
+  | { prefix: string }
+  | { range: { min: string; max: string } }
+  | { regex: string };
+
+export interface GeoPostalCode {
+  include?: PostalCodePattern[];
+  exclude?: PostalCodePattern[];
+}
+
+export interface GeoZone {
+  include?: string[]; // Zone IDs defined in ShippingConfig.zones
+  exclude?: string[];
+}
+
+export interface GeoConditions {
+  country?: GeoCountry;
+  region?: GeoRegion;
+  postalCode?: GeoPostalCode;
+  zone?: GeoZone;
+}
+
+// One area of a zone: a country, optionally narrowed by region and/or postal code
+export interface ZoneArea {
+  country: string; // ISO 3166-1 alpha-2
+  region?: string[]; // ISO 3166-2 subdivision
+  postalCode?: PostalCodePattern[];
+}
+
+// Named, reusable group of destinations (e.g., "us_remote", "eu_islands")
+export interface Zone {
+  id: string;
+  name?: LocalizedString;
+  areas: ZoneArea[];
+}
+
+// Which weight a weight range or weight-priced method uses
+// - actual: EvaluationContext.weight (or the sum of item weights)
+// - volumetric: dimensional weight, volume / divisor
+// - billable: the greater of actual and volumetric
+export type WeightBasis = "actual" | "volumetric" | "billable";
+
+export interface WeightRange extends RangeNumber {
+  basis?: WeightBasis; // Default: "actual"
+  divisor?: number; // Volume per weight unit, default 5000 (cm³/kg); 139 for in³/lb
+}
+
 export interface OrderConditions {
-  value?: RangeNumber;
+  value?: MoneyRange;
   items?: RangeNumber;
-  weight?: RangeNumber;
+  weight?: WeightRange;
+}
+
+// Cart line-item conditions (evaluated against EvaluationContext.items)
+// - tags.any / categories.any: at least one item carries one of the values
+// - tags.none / categories.none: no item carries any of the values
+// - sku.include: the cart contains at least one of the SKUs
+// - sku.exclude: the cart contains none of the SKUs
+// - allItemsHaveTag: every item carries the tag (e.g., "digital")
+export interface CartConditions {
+  tags?: { any?: string[]; none?: string[] };
+  categories?: { any?: string[]; none?: string[] };
+  sku?: { include?: string[]; exclude?: string[] };
+  allItemsHaveTag?: string;
+}
+
+// Customer account type
+export type AccountType = "consumer" | "business";
+
+// Customer conditions (evaluated against EvaluationContext.customer)
+// - segments.any / segments.none: the customer is in at least one / none of the segments
+// - membership / accountType: include or exclude membership tiers and account types
+// - orderCount: previous orders (max 0 = first-time buyers)
+export interface CustomerConditions {
+  segments?: { any?: string[]; none?: string[] };
+  membership?: { include?: string[]; exclude?: string[] };
+  accountType?: { include?: AccountType[]; exclude?: AccountType[] };
+  orderCount?: RangeNumber;
+}
+
+// Origin conditions (evaluated against the fulfilment location the order ships from)
+// - location / country: include or exclude location IDs and origin countries
+// - domestic: true when the origin is in the destination country, false when it isn't
+export interface OriginConditions {
+  location?: { include?: string[]; exclude?: string[] };
+  country?: { include?: string[]; exclude?: string[] };
+  domestic?: boolean;
 }
 
 export interface DateCriteria {
   after?: string;  // ISO 8601 date string (e.g., "2024-12-10")
   before?: string; // ISO 8601 date string (e.g., "2024-12-25")
+  notIn?: string | string[]; // Calendar ID(s): the order date must not fall on them
+}
+
+// Local time-of-day window, "HH:mm"; from inclusive, to exclusive ("24:00" = end of day)
+export interface TimeWindow {
+  from: string;
+  to: string;
+}
+
+// Recurring schedule evaluated against the order date in a time zone
+// e.g., { days: ["mon", "tue", "wed", "thu", "fri"], windows: [{ from: "00:00", to: "14:00" }] }
+export interface ScheduleConditions {
+  days?: Weekday[]; // Default: every day
+  windows?: TimeWindow[]; // Default: all day
+  timezone?: string; // IANA time zone, default: delivery time zone, then "UTC"
 }
 
+// All present fields must match (implicit AND)
+// allOf / anyOf / not nest further condition trees for boolean composition
 export interface Conditions {
-  geo?: { country?: GeoCountry };
+  geo?: GeoConditions;
   order?: OrderConditions;
+  cart?: CartConditions;
+  customer?: CustomerConditions;
+  origin?: OriginConditions;
   date?: DateCriteria;
+  schedule?: ScheduleConditions;
+  allOf?: Conditions[];
+  anyOf?: Conditions[];
+  not?: Conditions;
 }
 
 export interface Availability {
@@ -44,23 +219,82 @@ export interface Availability {
 export interface Rule {
   id: string;
   label?: LocalizedString;
-  criteria: {
-    order?: OrderConditions;
-    geo?: { country?: GeoCountry };
-    date?: DateCriteria;
-  };
-  price: number;
+  criteria: Conditions;
+  price: MoneyAmount;
   estimatedDays?: EstimatedDays;
   promoText?: LocalizedString;
   upgradeMessage?: LocalizedString;
   availability?: Availability; // Tier-level availability for upgrade hints
 }
 
+// Rate table bracket: applies when the key is <= upTo (brackets sorted ascending)
+// For key "value", upTo is an order value in the config currency
+export interface RateBracket {
+  upTo: number;
+  price: MoneyAmount;
+}
+
+// Price added for each started `every` units beyond the last bracket
+// e.g., { every: 1, price: 2.5 } = $2.50 per extra kg
+export interface RateTableOverflow {
+  every: number;
+  price: MoneyAmount;
+}
+
+// Round a value to a multiple of increment before lookup
+// e.g., { increment: 0.5, mode: "up" } rounds 2.1 kg to 2.5 kg
+export interface IncrementRounding {
+  increment: number;
+  mode?: "up" | "down" | "nearest"; // Default: "up"
+}
+
+export interface RateTablePricing {
+  type: "rate_table";
+  key: "weight" | "value" | "items";
+  brackets: RateBracket[];
+  overflow?: RateTableOverflow; // Without overflow, keys beyond the last bracket have no rate
+  rounding?: IncrementRounding;
+  basis?: WeightBasis; // For key "weight"
+  divisor?: number; // For key "weight" with volumetric/billable basis
+}
+
+// Weight bracket of a matrix: min <= weight <= max
+// Adjacent brackets share a boundary (max of one = min of the next); the first match wins
+export interface MatrixBracket {
+  min: number;
+  max: number;
+}
+
+// Prices for one zone, one per bracket (null = not served in that bracket)
+export interface MatrixRow {
+  zone: string; // Zone ID defined in ShippingConfig.zones
+  prices: Array<MoneyAmount | null>;
+}
+
+// Zone × weight rate card; the first row whose zone matches the destination applies
+export interface MatrixPricing {
+  type: "matrix";
+  brackets: MatrixBracket[];
+  rows: MatrixRow[];
+  rounding?: IncrementRounding;
+  basis?: WeightBasis;
+  divisor?: number;
+}
+
 export type Pricing =
-  | { type: "flat"; amount: number }
-  | { type: "item_based"; firstItemPrice: number; additionalItemPrice: number }
-  | { type: "value_based"; percentage: number; minAmount?: number; maxAmount?: number }
+  | { type: "flat"; amount: MoneyAmount }
+  | { type: "item_based"; firstItemPrice: MoneyAmount; additionalItemPrice: MoneyAmount }
+  | { type: "value_based"; percentage: number; minAmount?: MoneyAmount; maxAmount?: MoneyAmount }
   | { type: "tiered"; rules: Rule[] }
+  | {
+      type: "dimensional";
+      ratePerUnit: MoneyAmount;
+      divisor?: number;
+      basis?: WeightBasis;
+      minCharge?: MoneyAmount;
+    }
+  | RateTablePricing
+  | MatrixPricing
   | { type: "custom"; plugin: string; config: Record<string, unknown> };
 
 export interface Display {
@@ -68,6 +302,86 @@ export interface Display {
   priority?: number;
   hint?: LocalizedString;
   promoText?: LocalizedString;
+  countdown?: LocalizedString; // e.g., "Order within ${remaining} for same-day delivery"
+}
+
+// Adjustment applied on top of the calculated price (surcharge, or discount when negative)
+// - fixed: amount
+// - percentage_of_shipping: amount % of the calculated shipping price
+// - percentage_of_order: amount % of the order value
+// - per_item: amount × item count
+// Per-currency percentages are picked as-is, never converted
+export interface Adjustment {
+  id: string;
+  label?: LocalizedString;
+  type: "fixed" | "percentage_of_shipping" | "percentage_of_order" | "per_item";
+  amount: MoneyAmount;
+  category?: "surcharge" | "discount" | "tax"; // Breakdown line type, default by sign
+  conditions?: Conditions; // Only applied when these match
+}
+
+// Shipping promotion (coupon, customer segment or time-limited discount)
+// - percentage: value % off the shipping price
+// - fixed: value off the shipping price (never below 0)
+// - free_shipping: the shipping price becomes 0
+// Promotions apply in order, each to the price left by the previous ones
+export interface Promotion {
+  id: string;
+  label?: LocalizedString;
+  type: "percentage" | "fixed" | "free_shipping";
+  value?: MoneyAmount; // Required for percentage (0–100) and fixed
+  couponCodes?: string[]; // Requires one of these codes (case-insensitive)
+  segments?: string[]; // Requires the customer in one of these segments
+  date?: DateCriteria; // Promotion window
+  methods?: string[]; // Method IDs or "method_id:tier_id" (default: every method)
+}
+
+// Money rounding
+// - half_up: half away from zero; half_even: half to even (banker's rounding)
+// - up / down: towards +∞ / −∞
+export type RoundingMode = "half_up" | "half_even" | "up" | "down";
+
+// Rounding of the final price; amounts are always rounded to the currency's minor unit
+// - increment: round the price to a multiple (e.g., 0.05)
+// - ending: raise the price to this price ending (e.g., 0.99: 7.20 → 7.99); free stays free
+export interface PriceRounding {
+  mode?: RoundingMode; // Default: "half_up"
+  increment?: number;
+  ending?: number; // Fraction of a major unit, 0 <= ending < 1
+}
+
+// How the shopper receives the order
+// - delivery: shipped to the shopper's address
+// - pickup / locker: collected at one of the method's pickup locations
+export type FulfillmentKind = "delivery" | "pickup" | "locker";
+
+export interface Coordinates {
+  latitude: number;
+  longitude: number;
+}
+
+export interface PickupAddress {
+  line1: string;
+  line2?: string;
+  city: string;
+  region?: string;
+  postalCode?: string;
+  country: string; // ISO 3166-1 alpha-2
+}
+
+// Opening hours on some weekdays (local "HH:mm", to exclusive)
+export interface OpeningHours extends TimeWindow {
+  days: Weekday[];
+}
+
+// Store or parcel locker where pickup methods are collected
+export interface PickupLocation {
+  id: string;
+  name?: LocalizedString;
+  address: PickupAddress;
+  coordinates: Coordinates;
+  openingHours?: OpeningHours[];
+  radius?: number; // Max distance in km from the shopper (overrides the method's pickupRadius)
 }
 
 export interface ShippingMethod {
@@ -77,8 +391,13 @@ export interface ShippingMethod {
   description?: LocalizedString;
   icon?: string;
   display?: Display;
+  fulfillment?: FulfillmentKind; // Default: "delivery"
+  pickupLocations?: PickupLocation[]; // Pickup and locker methods
+  pickupRadius?: number; // Max distance in km from the shopper (default: unlimited)
   conditions?: Conditions;
   pricing: Pricing;
+  adjustments?: Adjustment[]; // Applied in order after pricing
+  rounding?: PriceRounding; // Overrides the config rounding
   availability?: Availability; // For non-tiered: how to show when conditions not met
   estimatedDays?: EstimatedDays;
   meta?: Record<string, unknown>;
@@ -87,8 +406,33 @@ export interface ShippingMethod {
 export interface ShippingConfig {
   $schema?: string;
   version: "1.0";
-  currency?: string; // ISO-4217, e.g., "USD"
+  currency?: string; // ISO-4217, e.g., "USD"; sets the decimal places of prices
+  rounding?: PriceRounding;
+  delivery?: DeliverySchedule; // Enables earliestDate / latestDate on displayed methods
+  calendars?: Calendar[];
+  zones?: Zone[];
+  locations?: FulfillmentLocation[];
   methods: ShippingMethod[];
+  promotions?: Promotion[];
+}
+
+export interface Dimensions {
+  length: number;
+  width: number;
+  height: number;
+}
+
+// Cart line item
+export interface CartItem {
+  sku: string;
+  quantity: number;
+  unitPrice?: number;
+  weight?: number; // Per unit
+  dimensions?: Dimensions; // Per unit
+  tags?: string[]; // e.g., "hazmat", "oversized", "frozen", "digital"
+  categories?: string[];
+  origin?: string; // Warehouse the item ships from
+  shippingClass?: string; // Items of another class ship separately (e.g., "furniture", "preorder")
 }
 
 // Context for evaluating shipping methods
@@ -96,22 +440,142 @@ export interface EvaluationContext {
   orderValue: number;
   itemCount: number;
   weight?: number;
+  items?: CartItem[]; // Line items for cart conditions
+  dimensions?: Dimensions; // Parcel dimensions, used when items carry none
   country: string; // ISO 3166-1 alpha-2
-  currency?: string;
+  region?: string; // ISO 3166-2 subdivision (e.g., "US-AK")
+  postalCode?: string;
+  currency?: string; // ISO-4217; prices are returned in this currency (default: config currency)
   locale?: string;
   orderDate?: Date; // Order date for seasonal/holiday pricing
+  origin?: string; // Location ID the order ships from
+  origins?: string[]; // Candidate location IDs (default: every location)
+  coordinates?: Coordinates; // Shopper location, for pickup distances
+  couponCodes?: string[]; // Coupon codes entered by the shopper
+  customer?: CustomerContext;
+}
+
+// Shopper identity
+export interface CustomerContext {
+  segments?: string[]; // Segments or tags, e.g., "loyalty", "vip"
+  membership?: string; // Membership tier, e.g., "prime"
+  accountType?: AccountType;
+  orderCount?: number; // Previous orders (0 for first-time buyers)
+}
+
+// Custom plugin result with an optional itemised breakdown (lines should sum to price)
+// Amounts are in the config currency and converted like plain config amounts
+export interface CustomPricingResult {
+  price: number;
+  breakdown?: PriceBreakdownLine[];
 }
 
 // Custom plugin interface for extensibility
-export type CustomPricingPlugin = (
-  config: Record<string, unknown>,
-  context: EvaluationContext
-) => number;
+// requires lists the context fields the plugin needs for a config (checked in strict mode)
+export type CustomPricingPlugin = {
+  (config: Record<string, unknown>, context: EvaluationContext): number | CustomPricingResult;
+  requires?: (config: Record<string, unknown>) => ContextField[];
+};
+
+// Optional context fields conditions and prices can depend on
+// - weight: actual weight (context.weight or item weights)
+// - dimensions: volumetric weight (item or parcel dimensions)
+// - customer: customer block (missing order count counts as 0)
+// - coordinates: shopper location (pickup radius)
+// - region / postalCode: destination subdivision and postal code (geo and zone conditions)
+export type ContextField =
+  | "orderDate"
+  | "weight"
+  | "dimensions"
+  | "items"
+  | "customer"
+  | "coordinates"
+  | "region"
+  | "postalCode";
+
+// Missing-context policy: true for every field, or per field (unlisted fields are lenient)
+export type StrictMode = boolean | Partial<Record<ContextField, boolean>>;
+
+// Why a method or tier is unavailable, for localized UI messages and logging
+export type UnavailableReasonCode =
+  | "DISABLED"
+  | "MISSING_CONTEXT" // Strict mode
+  | "GEO_EXCLUDED"
+  | "ORDER_VALUE_BELOW_MIN"
+  | "ORDER_VALUE_ABOVE_MAX"
+  | "ITEM_COUNT_BELOW_MIN"
+  | "ITEM_COUNT_ABOVE_MAX"
+  | "WEIGHT_BELOW_MIN"
+  | "WEIGHT_ABOVE_MAX"
+  | "CART_MISMATCH"
+  | "CUSTOMER_MISMATCH" // Segment, membership or account type
+  | "ORIGIN_UNSUPPORTED" // No candidate location ships the method
+  | "ORIGIN_MISMATCH" // Origin location, country or domestic condition
+  | "NO_PICKUP_LOCATION" // No pickup location within reach of the shopper
+  | "CURRENCY_UNSUPPORTED" // No amount in, nor exchange rate to, the evaluation currency
+  | "ORDER_COUNT_BELOW_MIN"
+  | "ORDER_COUNT_ABOVE_MAX"
+  | "DATE_OUTSIDE_WINDOW" // Before date.after or from date.before on
+  | "DATE_BLACKED_OUT" // Date in a date.notIn calendar
+  | "OUTSIDE_SCHEDULE"
+  | "NOT_CONDITION_MET" // The conditions of a not matched
+  | "NO_MATCHING_TIER"
+  | "NO_MATCHING_RATE";
+
+export interface UnavailableReason {
+  code: UnavailableReasonCode;
+  field?: string; // Context field or condition (e.g., "country", "zone", "orderValue", "tags")
+  required?: number; // Threshold not met (evaluation currency for order values)
+  actual?: number; // Context value compared to it
+}
+
+// Exchange rate from one currency to another (1 from = rate to), undefined when unknown
+export type ExchangeRateProvider = (from: string, to: string) => number | undefined;
+
+// Per-call options of getShippingMethodsForDisplay / getShippingMethodById
+export interface EvaluationOptions {
+  exchangeRates?: ExchangeRateProvider; // For currencies without per-currency amounts
+  strict?: StrictMode; // Missing context a condition or price needs makes the method unavailable
+  // (default: false for getShippingMethodsForDisplay, true for getShippingMethodById)
+}
+
+// Line of a price breakdown (amounts sum to the price)
+// - base: the pricing formula (flat amount, matched tier, bracket, zone cell, first item)
+// - per_item: per-unit components (additional items, overflow units)
+// - minimum_charge: top-up to a minimum charge or to 0
+// - surcharge / discount / tax: adjustments
+// - rounding: difference introduced by the price rounding (increment, price ending)
+// - promotion: discount of an applied promotion
+export interface PriceBreakdownLine {
+  type:
+    | "base"
+    | "per_item"
+    | "minimum_charge"
+    | "surcharge"
+    | "discount"
+    | "tax"
+    | "rounding"
+    | "promotion";
+  id?: string; // Tier, zone, plugin or adjustment ID
+  label?: string; // Localized
+  quantity?: number; // Units charged (items, weight units)
+  unitAmount?: number; // Price per unit
+  amount: number;
+}
 
 // ============================================
 // FRONTEND TYPES - For UI display
 // ============================================
 
+export interface DisplayPickupLocation {
+  id: string;
+  name?: string; // Localized
+  address: PickupAddress;
+  coordinates: Coordinates;
+  openingHours?: OpeningHours[];
+  distance?: number; // km from context.coordinates
+}
+
 export interface DisplayShippingMethod {
   // Identity
   id: string; // Full ID to send to backend: "method_id:tier_id" or "method_id"
@@ -125,14 +589,27 @@ export interface DisplayShippingMethod {
   badge?: string;
 
   // Pricing & Availability
-  price: number;
+  price: number; // After promotions
+  originalPrice?: number; // Before promotions (when any applied)
+  appliedPromotions?: string[]; // Promotion IDs
+  currency?: string; // Currency of price, breakdown and thresholds
+  revision?: string; // Revision of the config that priced it
+  origin?: string; // Location ID it ships from
+  breakdown?: PriceBreakdownLine[]; // Itemised price (when available)
   available: boolean;
   enabled: boolean;
   estimatedDays?: EstimatedDays;
+  earliestDate?: string; // ISO 8601 date, when ShippingConfig.delivery is set
+  latestDate?: string;
+
+  // Pickup (pickup and locker methods)
+  fulfillment?: FulfillmentKind;
+  pickupLocations?: DisplayPickupLocation[]; // Eligible locations, nearest first
 
   // Availability Mode (how to display in UI)
   availabilityMode?: "hide" | "show_disabled" | "show_hint";
-  message?: string;
+  message?: string; // English fallback of reasons
+  reasons?: UnavailableReason[]; // When unavailable
   promoText?: string; // Localized
   upgradeMessage?: string; // Localized
 
@@ -144,6 +621,13 @@ export interface DisplayShippingMethod {
     percentage: number;
   };
 
+  // Countdown to the end of the current schedule window (schedule conditions)
+  countdown?: {
+    endsAt: string; // ISO 8601 timestamp
+    remainingMinutes: number;
+    message?: string; // Localized Display.countdown with ${remaining} (e.g., "2h 13m")
+  };
+
   // Next Tier Information (for upgrade hints)
   nextTier?: {
     id: string;
@@ -169,15 +653,159 @@ export interface ValidatedShippingMethod {
   // Validation Result
   available: boolean;
   enabled: boolean;
+  reasons?: UnavailableReason[]; // When unavailable
 
   // Pricing (what matters for checkout)
-  price: number;
+  price: number; // After promotions
+  originalPrice?: number; // Before promotions (when any applied)
+  appliedPromotions?: string[]; // Promotion IDs
+  currency?: string; // Currency of price and breakdown
+  revision?: string; // Revision of the config that priced it
+  origin?: string; // Location ID it ships from
+  fulfillment?: FulfillmentKind;
+  breakdown?: PriceBreakdownLine[]; // Itemised price (when available)
   estimatedDays?: EstimatedDays;
 
   // Display info (for order confirmation)
   name: string; // Localized
   description?: string; // Localized
 
+  substitutedFrom?: string; // Requested ID, when tierFallback replaced a stale tier
+
   // Custom Metadata
   meta?: Record<string, unknown>;
 }
+
+// Tier to use instead of a submitted tier the order no longer qualifies for
+// - matching: the tier the frontend would show now (first matching)
+// - cheapest / most_expensive: the eligible tier with the lowest / highest price
+export type TierFallback = "matching" | "cheapest" | "most_expensive";
+
+// In-memory history of configurations, keyed by revision (createConfigHistory)
+export interface ConfigHistory {
+  add(config: ShippingConfig): string; // Returns the revision
+  get(revision: string): ShippingConfig | undefined;
+  revisions(): string[]; // Oldest first
+}
+
+// Options of getShippingMethodById
+export interface BackendEvaluationOptions extends EvaluationOptions {
+  tierFallback?: TierFallback; // Default: no fallback (stale tiers are unavailable)
+  revision?: string; // Validate against this earlier config revision (from history)
+  history?: ConfigHistory;
+}
+
+// Selection sent by the frontend, checked by validateShippingSelection
+export interface ShippingSelection {
+  id: string; // Full ID: "method_id:tier_id" or "method_id"
+  expectedPrice: number; // Price the shopper saw (evaluation currency)
+  context: EvaluationContext;
+}
+
+// Accepted difference between the expected and validated price (the larger applies)
+export interface PriceTolerance {
+  amount?: number; // Absolute, in the evaluation currency
+  percentage?: number; // Of the validated price
+}
+
+export interface SelectionValidationOptions extends BackendEvaluationOptions {
+  tolerance?: PriceTolerance; // Default: exact match
+}
+
+// Outcome of validateShippingSelection, discriminated by status
+// - unknown_revision: options.revision is neither the config's nor in options.history
+// - unknown_method / unknown_tier: the ID doesn't exist in the config
+// - disabled: the method has enabled: false
+// - tier_not_eligible: the method applies, but the order doesn't qualify for the tier
+// - unavailable: the method doesn't apply to the order
+// - price_changed: the validated price differs from the expected price beyond the tolerance
+export type ShippingSelectionResult =
+  | { status: "ok"; method: ValidatedShippingMethod; price: number }
+  | {
+      status: "price_changed";
+      method: ValidatedShippingMethod;
+      price: number;
+      expectedPrice: number;
+      difference: number; // price - expectedPrice
+    }
+  | { status: "unavailable"; method: ValidatedShippingMethod; reasons: UnavailableReason[] }
+  | { status: "tier_not_eligible"; method: ValidatedShippingMethod; reasons: UnavailableReason[] }
+  | { status: "disabled"; method: ValidatedShippingMethod }
+  | { status: "unknown_revision"; revision: string }
+  | { status: "unknown_method"; id: string }
+  | { status: "unknown_tier"; id: string; methodId: string };
+
+// ============================================
+// QUOTE TYPES - Signed shipping quotes
+// ============================================
+
+// Content of a signed quote token
+export interface ShippingQuote {
+  method: DisplayShippingMethod; // Chosen method as displayed
+  contextHash: string; // SHA-256 of the EvaluationContext (orderDate excluded)
+  configRevision: string; // getConfigRevision() of the config that priced it
+  issuedAt: string; // ISO 8601 timestamp
+  expiresAt: string;
+}
+
+export interface QuoteSigningOptions {
+  secret: string; // HMAC-SHA256 key, shared by signer and verifier
+  ttlSeconds?: number; // Default: 900 (15 minutes)
+  now?: Date; // Default: current time
+}
+
+export interface QuoteVerificationOptions {
+  secret: string;
+  now?: Date; // Default: current time
+}
+
+// Outcome of verifyShippingQuote, discriminated by status
+// - malformed: not a quote token
+// - invalid_signature: not signed with the secret (or tampered)
+// - expired: past expiresAt
+// - config_mismatch: signed for another config revision
+// - context_mismatch: the order context changed since the quote
+export type QuoteVerificationResult =
+  | { status: "ok"; quote: ShippingQuote }
+  | { status: "malformed" }
+  | { status: "invalid_signature" }
+  | { status: "expired"; quote: ShippingQuote }
+  | { status: "config_mismatch"; quote: ShippingQuote }
+  | { status: "context_mismatch"; quote: ShippingQuote };
+
+// ============================================
+// SHIPMENT TYPES - Carts split into several shipments
+// ============================================
+
+// Line items shipped together (same origin and shipping class)
+export interface Shipment {
+  id: string; // "origin/shippingClass" of its items (unset parts empty), or "default"
+  origin?: string;
+  shippingClass?: string;
+  items: CartItem[];
+  context: EvaluationContext; // Order context narrowed to the shipment's items
+}
+
+export interface DisplayShipment extends Shipment {
+  methods: DisplayShippingMethod[];
+}
+
+export interface ShipmentsForDisplay {
+  shipments: DisplayShipment[];
+  total?: number; // Cheapest available method of every shipment, summed (undefined when one has none)
+  currency?: string;
+}
+
+// Selected method ID per shipment ID
+export type ShipmentSelection = Record<string, string>;
+
+export interface ValidatedShipment extends Shipment {
+  method?: ValidatedShippingMethod; // Undefined when nothing (or an unknown ID) was selected
+}
+
+export interface ValidatedShipments {
+  valid: boolean; // Every shipment has an available method, and no unknown shipment was selected
+  shipments: ValidatedShipment[];
+  total: number; // Sum of the available selected methods
+  currency?: string;
+}
@@ -52,3 +52,26 @@ export function interpolateMessage(
 
   return result;
 }
+
+/**
+ * Serialize a value to JSON with sorted object keys, for hashing
+ * Dates become ISO 8601 strings; undefined properties are dropped
+ */
+export function stableStringify(value: unknown): string {
+  const normalize = (v: unknown): unknown => {
+    if (v instanceof Date) return v.toISOString();
+    if (Array.isArray(v)) return v.map(normalize);
+    if (v !== null && typeof v === "object") {
+      const record = v as Record<string, unknown>;
+      return Object.fromEntries(
+        Object.keys(record)
+          .filter((key) => record[key] !== undefined)
+          .sort()
+          .map((key) => [key, normalize(record[key])])
+      );
+    }
+    return v;
+  };
+
+  return JSON.stringify(normalize(value));
+}
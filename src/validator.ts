@@ -1,6 +1,8 @@
 // shipping-dsl.v1.arktype.ts
 import { type, scope } from "arktype";
-import type { ShippingConfig } from "./types.js";
+import type { ShippingConfig, Conditions, PostalCodePattern, MoneyAmount, Pricing } from "./types.js";
+import { isAnnualDate } from "./dates.js";
+import { isWholeMinorUnits } from "./money.js";
 
 // Create a scope with all types for validation
 const types = scope({
@@ -11,27 +13,195 @@ const types = scope({
     "max?": "number"
   },
 
+  Money: "number >= 0 | Record<string, number >= 0>",
+
+  SignedMoney: "number | Record<string, number>",
+
+  MoneyRange: {
+    "min?": "SignedMoney",
+    "max?": "SignedMoney"
+  },
+
   EstimatedDays: {
     min: "number >= 0",
     max: "number >= 0"
   },
 
+  IsoDate: "/^\\d{4}-\\d{2}-\\d{2}$/",
+
+  Weekday: "'mon' | 'tue' | 'wed' | 'thu' | 'fri' | 'sat' | 'sun'",
+
+  TimeWindow: {
+    from: "/^([01]\\d|2[0-3]):[0-5]\\d$/",
+    to: "/^(([01]\\d|2[0-3]):[0-5]\\d|24:00)$/"
+  },
+
+  ScheduleConditions: {
+    "days?": "Weekday[] >= 1",
+    "windows?": "TimeWindow[] >= 1",
+    "timezone?": "string >= 1"
+  },
+
+  DeliverySchedule: {
+    "timezone?": "string >= 1",
+    "cutoffTime?": "/^([01]\\d|2[0-3]):[0-5]\\d$/",
+    "workingDays?": "Weekday[] >= 1",
+    "holidays?": "IsoDate[]",
+    "calendars?": "string[]"
+  },
+
+  FulfillmentLocation: {
+    id: "string >= 1",
+    "name?": "LocalizedString",
+    country: "string >= 1",
+    "region?": "string >= 1",
+    "timezone?": "string >= 1",
+    "cutoffTime?": "/^([01]\\d|2[0-3]):[0-5]\\d$/",
+    "workingDays?": "Weekday[] >= 1",
+    "methods?": "(string >= 1)[]"
+  },
+
+  CalendarDate: "/^(\\d{4}-)?\\d{2}-\\d{2}$/",
+
+  CalendarEntry: ["CalendarDate", "|", { from: "CalendarDate", to: "CalendarDate" }],
+
+  Calendar: {
+    id: "string >= 1",
+    "name?": "LocalizedString",
+    dates: "CalendarEntry[]"
+  },
+
   GeoCountry: {
     "include?": "string[]",
     "exclude?": "string[]"
   },
 
+  GeoRegion: {
+    "include?": "string[]",
+    "exclude?": "string[]"
+  },
+
+  PostalCodePrefix: {
+    prefix: "string >= 1"
+  },
+
+  PostalCodeRange: {
+    range: {
+      min: "string >= 1",
+      max: "string >= 1"
+    }
+  },
+
+  PostalCodeRegex: {
+    regex: "string >= 1"
+  },
+
+  PostalCodePattern: "string | PostalCodePrefix | PostalCodeRange | PostalCodeRegex",
+
+  GeoPostalCode: {
+    "include?": "PostalCodePattern[]",
+    "exclude?": "PostalCodePattern[]"
+  },
+
+  GeoZone: {
+    "include?": "string[]",
+    "exclude?": "string[]"
+  },
+
+  GeoConditions: {
+    "country?": "GeoCountry",
+    "region?": "GeoRegion",
+    "postalCode?": "GeoPostalCode",
+    "zone?": "GeoZone"
+  },
+
+  ZoneArea: {
+    country: "string >= 1",
+    "region?": "string[]",
+    "postalCode?": "PostalCodePattern[]"
+  },
+
+  Zone: {
+    id: "string >= 1",
+    "name?": "LocalizedString",
+    areas: "ZoneArea[] >= 1"
+  },
+
+  WeightBasis: "'actual' | 'volumetric' | 'billable'",
+
+  WeightRange: {
+    "min?": "number",
+    "max?": "number",
+    "basis?": "WeightBasis",
+    "divisor?": "number > 0"
+  },
+
   OrderConditions: {
-    "value?": "RangeNumber",
+    "value?": "MoneyRange",
     "items?": "RangeNumber",
-    "weight?": "RangeNumber"
+    "weight?": "WeightRange"
   },
 
-  Conditions: {
-    "geo?": {
-      "country?": "GeoCountry"
+  ItemAttributeList: {
+    "any?": "string[]",
+    "none?": "string[]"
+  },
+
+  CartConditions: {
+    "tags?": "ItemAttributeList",
+    "categories?": "ItemAttributeList",
+    "sku?": {
+      "include?": "string[]",
+      "exclude?": "string[]"
+    },
+    "allItemsHaveTag?": "string >= 1"
+  },
+
+  CustomerConditions: {
+    "segments?": {
+      "any?": "string[]",
+      "none?": "string[]"
+    },
+    "membership?": {
+      "include?": "string[]",
+      "exclude?": "string[]"
     },
-    "order?": "OrderConditions"
+    "accountType?": {
+      "include?": "('consumer' | 'business')[]",
+      "exclude?": "('consumer' | 'business')[]"
+    },
+    "orderCount?": "RangeNumber"
+  },
+
+  OriginConditions: {
+    "location?": {
+      "include?": "string[]",
+      "exclude?": "string[]"
+    },
+    "country?": {
+      "include?": "string[]",
+      "exclude?": "string[]"
+    },
+    "domestic?": "boolean"
+  },
+
+  DateCriteria: {
+    "after?": "string",
+    "before?": "string",
+    "notIn?": "string | string[]"
+  },
+
+  Conditions: {
+    "geo?": "GeoConditions",
+    "order?": "OrderConditions",
+    "cart?": "CartConditions",
+    "customer?": "CustomerConditions",
+    "origin?": "OriginConditions",
+    "date?": "DateCriteria",
+    "schedule?": "ScheduleConditions",
+    "allOf?": "Conditions[] >= 1",
+    "anyOf?": "Conditions[] >= 1",
+    "not?": "Conditions"
   },
 
   Availability: {
@@ -44,13 +214,8 @@ const types = scope({
   Rule: {
     id: "string >= 1",
     "label?": "LocalizedString",
-    criteria: {
-      "order?": "OrderConditions",
-      "geo?": {
-        "country?": "GeoCountry"
-      }
-    },
-    price: "number >= 0",
+    criteria: "Conditions",
+    price: "Money",
     "estimatedDays?": "EstimatedDays",
     "promoText?": "LocalizedString",
     "upgradeMessage?": "LocalizedString",
@@ -59,20 +224,20 @@ const types = scope({
 
   PricingFlat: {
     type: "'flat'",
-    amount: "number >= 0"
+    amount: "Money"
   },
 
   PricingItemBased: {
     type: "'item_based'",
-    firstItemPrice: "number >= 0",
-    additionalItemPrice: "number >= 0"
+    firstItemPrice: "Money",
+    additionalItemPrice: "Money"
   },
 
   PricingValueBased: {
     type: "'value_based'",
     percentage: "number > 0",
-    "minAmount?": "number >= 0",
-    "maxAmount?": "number >= 0"
+    "minAmount?": "Money",
+    "maxAmount?": "Money"
   },
 
   PricingTiered: {
@@ -80,19 +245,125 @@ const types = scope({
     rules: "Rule[] >= 1"
   },
 
+  PricingDimensional: {
+    type: "'dimensional'",
+    ratePerUnit: "Money",
+    "divisor?": "number > 0",
+    "basis?": "WeightBasis",
+    "minCharge?": "Money"
+  },
+
+  RateBracket: {
+    upTo: "number >= 0",
+    price: "Money"
+  },
+
+  IncrementRounding: {
+    increment: "number > 0",
+    "mode?": "'up' | 'down' | 'nearest'"
+  },
+
+  PricingRateTable: {
+    type: "'rate_table'",
+    key: "'weight' | 'value' | 'items'",
+    brackets: "RateBracket[] >= 1",
+    "overflow?": {
+      every: "number > 0",
+      price: "Money"
+    },
+    "rounding?": "IncrementRounding",
+    "basis?": "WeightBasis",
+    "divisor?": "number > 0"
+  },
+
+  MatrixBracket: {
+    min: "number >= 0",
+    max: "number >= 0"
+  },
+
+  MatrixRow: {
+    zone: "string >= 1",
+    prices: "(Money | null)[]"
+  },
+
+  PricingMatrix: {
+    type: "'matrix'",
+    brackets: "MatrixBracket[] >= 1",
+    rows: "MatrixRow[] >= 1",
+    "rounding?": "IncrementRounding",
+    "basis?": "WeightBasis",
+    "divisor?": "number > 0"
+  },
+
   PricingCustom: {
     type: "'custom'",
     plugin: "string >= 1",
     config: "object"
   },
 
-  Pricing: "PricingFlat | PricingItemBased | PricingValueBased | PricingTiered | PricingCustom",
+  Pricing: "PricingFlat | PricingItemBased | PricingValueBased | PricingTiered | PricingDimensional | PricingRateTable | PricingMatrix | PricingCustom",
+
+  Adjustment: {
+    id: "string >= 1",
+    "label?": "LocalizedString",
+    type: "'fixed' | 'percentage_of_shipping' | 'percentage_of_order' | 'per_item'",
+    amount: "SignedMoney",
+    "category?": "'surcharge' | 'discount' | 'tax'",
+    "conditions?": "Conditions"
+  },
+
+  Promotion: {
+    id: "string >= 1",
+    "label?": "LocalizedString",
+    type: "'percentage' | 'fixed' | 'free_shipping'",
+    "value?": "Money",
+    "couponCodes?": "(string >= 1)[]",
+    "segments?": "(string >= 1)[]",
+    "date?": "DateCriteria",
+    "methods?": "(string >= 1)[]"
+  },
+
+  PriceRounding: {
+    "mode?": "'half_up' | 'half_even' | 'up' | 'down'",
+    "increment?": "number > 0",
+    "ending?": "0 <= number < 1"
+  },
 
   Display: {
     "badge?": "string",
     "priority?": "number",
     "hint?": "LocalizedString",
-    "promoText?": "LocalizedString"
+    "promoText?": "LocalizedString",
+    "countdown?": "LocalizedString"
+  },
+
+  Coordinates: {
+    latitude: "-90 <= number <= 90",
+    longitude: "-180 <= number <= 180"
+  },
+
+  PickupAddress: {
+    line1: "string >= 1",
+    "line2?": "string",
+    city: "string >= 1",
+    "region?": "string",
+    "postalCode?": "string",
+    country: "string >= 1"
+  },
+
+  OpeningHours: {
+    days: "Weekday[] >= 1",
+    from: "/^([01]\\d|2[0-3]):[0-5]\\d$/",
+    to: "/^(([01]\\d|2[0-3]):[0-5]\\d|24:00)$/"
+  },
+
+  PickupLocation: {
+    id: "string >= 1",
+    "name?": "LocalizedString",
+    address: "PickupAddress",
+    coordinates: "Coordinates",
+    "openingHours?": "OpeningHours[]",
+    "radius?": "number > 0"
   },
 
   ShippingMethod: {
@@ -102,8 +373,13 @@ const types = scope({
     "description?": "LocalizedString",
     "icon?": "string",
     "display?": "Display",
+    "fulfillment?": "'delivery' | 'pickup' | 'locker'",
+    "pickupLocations?": "PickupLocation[]",
+    "pickupRadius?": "number > 0",
     "conditions?": "Conditions",
     pricing: "Pricing",
+    "adjustments?": "Adjustment[]",
+    "rounding?": "PriceRounding",
     "availability?": "Availability",
     "estimatedDays?": "EstimatedDays",
     "meta?": "object"
@@ -113,13 +389,444 @@ const types = scope({
     "$schema?": "string",
     version: "'1.0'",
     "currency?": "string",
-    methods: "ShippingMethod[] >= 1"
+    "rounding?": "PriceRounding",
+    "delivery?": "DeliverySchedule",
+    "calendars?": "Calendar[]",
+    "zones?": "Zone[]",
+    "locations?": "FulfillmentLocation[]",
+    methods: "ShippingMethod[] >= 1",
+    "promotions?": "Promotion[]"
   }
 }).export();
 
 // Internal validator
 const ShippingConfigValidator = types.ShippingConfig;
 
+/**
+ * Visit a condition tree, including nested allOf / anyOf / not nodes
+ */
+function walkConditions(
+  conditions: Conditions | undefined,
+  visit: (node: Conditions) => void
+): void {
+  if (!conditions) return;
+
+  visit(conditions);
+  conditions.allOf?.forEach((child) => walkConditions(child, visit));
+  conditions.anyOf?.forEach((child) => walkConditions(child, visit));
+  walkConditions(conditions.not, visit);
+}
+
+/**
+ * Collect every condition node in the configuration (methods, adjustments, tiers
+ * and promotion date windows)
+ */
+function collectConditions(config: ShippingConfig): Conditions[] {
+  const nodes: Conditions[] = [];
+  const visit = (node: Conditions) => nodes.push(node);
+
+  for (const method of config.methods) {
+    walkConditions(method.conditions, visit);
+    method.adjustments?.forEach((adjustment) => walkConditions(adjustment.conditions, visit));
+    if (method.pricing.type === "tiered") {
+      for (const rule of method.pricing.rules) {
+        walkConditions(rule.criteria, visit);
+      }
+    }
+  }
+  for (const promotion of config.promotions ?? []) {
+    if (promotion.date) visit({ date: promotion.date });
+  }
+
+  return nodes;
+}
+
+/**
+ * Check that postal code regex patterns compile and ranges are ordered numbers of equal length
+ */
+function checkPostalCodePatterns(patterns: PostalCodePattern[] | undefined): void {
+  for (const pattern of patterns ?? []) {
+    if (typeof pattern === "object" && "range" in pattern) {
+      const { min, max } = pattern.range;
+      if (!/^\d+$/.test(min) || !/^\d+$/.test(max) || min.length !== max.length || min > max) {
+        throw new Error(
+          `Invalid shipping configuration: invalid postal code range "${min}"-"${max}" (min and max must be numeric, the same length and in order)`
+        );
+      }
+    }
+
+    if (typeof pattern === "object" && "regex" in pattern) {
+      try {
+        new RegExp(pattern.regex);
+      } catch {
+        throw new Error(`Invalid shipping configuration: invalid postal code regex "${pattern.regex}"`);
+      }
+    }
+  }
+}
+
+/**
+ * Check that rate table brackets are sorted by strictly ascending upTo
+ */
+function checkRateTables(config: ShippingConfig): void {
+  for (const method of config.methods) {
+    if (method.pricing.type !== "rate_table") continue;
+
+    const { brackets } = method.pricing;
+    for (let i = 1; i < brackets.length; i++) {
+      if (brackets[i].upTo <= brackets[i - 1].upTo) {
+        throw new Error(
+          `Invalid shipping configuration: rate table brackets of "${method.id}" must have ascending upTo values`
+        );
+      }
+    }
+  }
+}
+
+/**
+ * Check matrix pricing: contiguous brackets (no gaps or overlaps),
+ * one price per bracket in every row, and known zones
+ */
+function checkMatrices(config: ShippingConfig, zoneIds: Set<string>): void {
+  for (const method of config.methods) {
+    if (method.pricing.type !== "matrix") continue;
+
+    const { brackets, rows } = method.pricing;
+    const fail = (message: string): never => {
+      throw new Error(`Invalid shipping configuration: matrix of "${method.id}" ${message}`);
+    };
+
+    brackets.forEach((bracket, i) => {
+      if (bracket.max <= bracket.min) {
+        fail(`has an empty bracket ${bracket.min}-${bracket.max}`);
+      }
+      if (i === 0) return;
+
+      const previous = brackets[i - 1];
+      if (bracket.min > previous.max) {
+        fail(`has a gap between ${previous.max} and ${bracket.min}`);
+      }
+      if (bracket.min < previous.max) {
+        fail(`has overlapping brackets at ${bracket.min}-${previous.max}`);
+      }
+    });
+
+    for (const row of rows) {
+      if (!zoneIds.has(row.zone)) {
+        throw new Error(`Invalid shipping configuration: unknown zone "${row.zone}"`);
+      }
+      if (row.prices.length !== brackets.length) {
+        fail(`row "${row.zone}" has ${row.prices.length} prices for ${brackets.length} brackets`);
+      }
+    }
+  }
+}
+
+/**
+ * Collect the money amounts of a pricing configuration
+ */
+function collectPricingAmounts(pricing: Pricing): Array<MoneyAmount | undefined> {
+  switch (pricing.type) {
+    case "flat":
+      return [pricing.amount];
+    case "item_based":
+      return [pricing.firstItemPrice, pricing.additionalItemPrice];
+    case "value_based":
+      return [pricing.minAmount, pricing.maxAmount];
+    case "tiered":
+      return pricing.rules.map((rule) => rule.price);
+    case "dimensional":
+      return [pricing.ratePerUnit, pricing.minCharge];
+    case "rate_table":
+      return [...pricing.brackets.map((b) => b.price), pricing.overflow?.price];
+    case "matrix":
+      return pricing.rows.flatMap((row) => row.prices.map((price) => price ?? undefined));
+    default:
+      return [];
+  }
+}
+
+/**
+ * Check per-currency amounts: ISO-4217 keys, and an amount for the config currency
+ * so that other currencies can always fall back to it
+ */
+function checkCurrencyAmounts(config: ShippingConfig): void {
+  const amounts: Array<MoneyAmount | undefined> = [];
+
+  for (const method of config.methods) {
+    amounts.push(...collectPricingAmounts(method.pricing));
+    method.adjustments?.forEach((adjustment) => amounts.push(adjustment.amount));
+  }
+  for (const promotion of config.promotions ?? []) {
+    amounts.push(promotion.value);
+  }
+  for (const { order } of collectConditions(config)) {
+    amounts.push(order?.value?.min, order?.value?.max);
+  }
+
+  for (const amount of amounts) {
+    if (amount === undefined || typeof amount === "number") continue;
+
+    const currencies = Object.keys(amount);
+    const invalid = currencies.find((currency) => !/^[A-Z]{3}$/.test(currency));
+    if (invalid !== undefined) {
+      throw new Error(`Invalid shipping configuration: invalid currency code "${invalid}"`);
+    }
+
+    const baseCurrency = config.currency?.toUpperCase();
+    if (!baseCurrency || !currencies.includes(baseCurrency)) {
+      throw new Error(
+        `Invalid shipping configuration: per-currency amount ${JSON.stringify(amount)} must include the config currency`
+      );
+    }
+  }
+}
+
+/**
+ * Check price endings: whole minor units of the config currency (no 0.99 ending in JPY)
+ */
+function checkPriceEndings(config: ShippingConfig): void {
+  const roundings = [config.rounding, ...config.methods.map((method) => method.rounding)];
+
+  for (const rounding of roundings) {
+    if (rounding?.ending === undefined || isWholeMinorUnits(rounding.ending, config.currency)) {
+      continue;
+    }
+    throw new Error(
+      `Invalid shipping configuration: price ending ${rounding.ending} is finer than the ${config.currency ?? "config currency"} minor unit`
+    );
+  }
+}
+
+/**
+ * Check calendars: unique IDs, well-formed ranges and known calendar references
+ */
+function checkCalendars(config: ShippingConfig): void {
+  const calendarIds = new Set<string>();
+
+  for (const calendar of config.calendars ?? []) {
+    if (calendarIds.has(calendar.id)) {
+      throw new Error(`Invalid shipping configuration: duplicate calendar id "${calendar.id}"`);
+    }
+    calendarIds.add(calendar.id);
+
+    for (const entry of calendar.dates) {
+      if (typeof entry === "string") continue;
+
+      const { from, to } = entry;
+      if (isAnnualDate(from) !== isAnnualDate(to) || (!isAnnualDate(from) && from > to)) {
+        throw new Error(
+          `Invalid shipping configuration: invalid date range ${from} to ${to} in calendar "${calendar.id}"`
+        );
+      }
+    }
+  }
+
+  const references = [...(config.delivery?.calendars ?? [])];
+  for (const { date } of collectConditions(config)) {
+    if (date?.notIn) references.push(...(typeof date.notIn === "string" ? [date.notIn] : date.notIn));
+  }
+
+  for (const id of references) {
+    if (!calendarIds.has(id)) {
+      throw new Error(`Invalid shipping configuration: unknown calendar "${id}"`);
+    }
+  }
+}
+
+/**
+ * Check that a time zone is a known IANA time zone
+ */
+function checkTimeZone(timezone: string | undefined): void {
+  if (timezone === undefined) return;
+
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: timezone });
+  } catch {
+    throw new Error(`Invalid shipping configuration: unknown time zone "${timezone}"`);
+  }
+}
+
+/**
+ * Check the delivery schedule and schedule conditions: known time zones
+ * and non-empty time windows
+ */
+function checkSchedules(config: ShippingConfig): void {
+  checkTimeZone(config.delivery?.timezone);
+
+  for (const { schedule } of collectConditions(config)) {
+    if (!schedule) continue;
+
+    checkTimeZone(schedule.timezone);
+    for (const window of schedule.windows ?? []) {
+      if (window.from >= window.to) {
+        throw new Error(
+          `Invalid shipping configuration: empty time window ${window.from}-${window.to}`
+        );
+      }
+    }
+  }
+}
+
+/**
+ * Check promotions: unique IDs, a value for percentage and fixed discounts
+ * (percentages up to 100) and known method/tier references
+ */
+function checkPromotions(config: ShippingConfig): void {
+  const targets = new Set<string>();
+  for (const method of config.methods) {
+    targets.add(method.id);
+    if (method.pricing.type === "tiered") {
+      method.pricing.rules.forEach((rule) => targets.add(`${method.id}:${rule.id}`));
+    }
+  }
+
+  const promotionIds = new Set<string>();
+  for (const promotion of config.promotions ?? []) {
+    if (promotionIds.has(promotion.id)) {
+      throw new Error(`Invalid shipping configuration: duplicate promotion id "${promotion.id}"`);
+    }
+    promotionIds.add(promotion.id);
+
+    if (promotion.type !== "free_shipping" && promotion.value === undefined) {
+      throw new Error(
+        `Invalid shipping configuration: promotion "${promotion.id}" requires a value`
+      );
+    }
+
+    if (promotion.type === "percentage" && promotion.value !== undefined) {
+      const values =
+        typeof promotion.value === "number" ? [promotion.value] : Object.values(promotion.value);
+      if (values.some((value) => value > 100)) {
+        throw new Error(
+          `Invalid shipping configuration: promotion "${promotion.id}" exceeds 100%`
+        );
+      }
+    }
+
+    for (const target of promotion.methods ?? []) {
+      if (!targets.has(target)) {
+        throw new Error(`Invalid shipping configuration: unknown promotion method "${target}"`);
+      }
+    }
+  }
+}
+
+/**
+ * Check fulfilment locations: unique IDs, known time zones and methods, and
+ * origin conditions only referencing known locations
+ */
+function checkLocations(config: ShippingConfig): void {
+  const locationIds = new Set<string>();
+  const methodIds = new Set(config.methods.map((method) => method.id));
+
+  for (const location of config.locations ?? []) {
+    if (locationIds.has(location.id)) {
+      throw new Error(`Invalid shipping configuration: duplicate location id "${location.id}"`);
+    }
+    locationIds.add(location.id);
+
+    checkTimeZone(location.timezone);
+    for (const id of location.methods ?? []) {
+      if (!methodIds.has(id)) {
+        throw new Error(
+          `Invalid shipping configuration: unknown method "${id}" in location "${location.id}"`
+        );
+      }
+    }
+  }
+
+  for (const { origin } of collectConditions(config)) {
+    if (!origin) continue;
+
+    if (locationIds.size === 0) {
+      throw new Error("Invalid shipping configuration: origin conditions require locations");
+    }
+    for (const id of [...(origin.location?.include ?? []), ...(origin.location?.exclude ?? [])]) {
+      if (!locationIds.has(id)) {
+        throw new Error(`Invalid shipping configuration: unknown location "${id}"`);
+      }
+    }
+  }
+}
+
+/**
+ * Check pickup locations: only on pickup and locker methods, unique IDs per method
+ * and non-empty opening hours
+ */
+function checkPickupLocations(config: ShippingConfig): void {
+  for (const method of config.methods) {
+    if (!method.pickupLocations) continue;
+
+    if (method.fulfillment !== "pickup" && method.fulfillment !== "locker") {
+      throw new Error(
+        `Invalid shipping configuration: pickup locations of "${method.id}" require a pickup or locker fulfillment`
+      );
+    }
+
+    const locationIds = new Set<string>();
+    for (const location of method.pickupLocations) {
+      if (locationIds.has(location.id)) {
+        throw new Error(
+          `Invalid shipping configuration: duplicate pickup location id "${location.id}" in "${method.id}"`
+        );
+      }
+      locationIds.add(location.id);
+
+      for (const hours of location.openingHours ?? []) {
+        if (hours.from >= hours.to) {
+          throw new Error(
+            `Invalid shipping configuration: empty opening hours ${hours.from}-${hours.to} in pickup location "${location.id}"`
+          );
+        }
+      }
+    }
+  }
+}
+
+/**
+ * Semantic checks that the structural validator cannot express
+ * (unique zone IDs, zone references, postal code regexes, bracket order and coverage,
+ * per-currency amounts, time zones, calendars, promotions, locations, pickup locations)
+ */
+function validateSemantics(config: ShippingConfig): void {
+  const zoneIds = new Set<string>();
+
+  for (const zone of config.zones ?? []) {
+    if (zoneIds.has(zone.id)) {
+      throw new Error(`Invalid shipping configuration: duplicate zone id "${zone.id}"`);
+    }
+    zoneIds.add(zone.id);
+
+    for (const area of zone.areas) {
+      checkPostalCodePatterns(area.postalCode);
+    }
+  }
+
+  for (const { geo } of collectConditions(config)) {
+    if (!geo) continue;
+
+    checkPostalCodePatterns(geo.postalCode?.include);
+    checkPostalCodePatterns(geo.postalCode?.exclude);
+
+    for (const id of [...(geo.zone?.include ?? []), ...(geo.zone?.exclude ?? [])]) {
+      if (!zoneIds.has(id)) {
+        throw new Error(`Invalid shipping configuration: unknown zone "${id}"`);
+      }
+    }
+  }
+
+  checkRateTables(config);
+  checkMatrices(config, zoneIds);
+  checkCurrencyAmounts(config);
+  checkPriceEndings(config);
+  checkSchedules(config);
+  checkCalendars(config);
+  checkPromotions(config);
+  checkLocations(config);
+  checkPickupLocations(config);
+}
+
 /**
  * Validate shipping configuration at runtime
  * @param data - Unknown data to validate
@@ -133,5 +840,7 @@ export function validateShippingConfig(data: unknown): ShippingConfig {
     throw new Error(`Invalid shipping configuration: ${result.summary}`);
   }
 
+  validateSemantics(result as ShippingConfig);
+
   return result as ShippingConfig;
 }
@@ -0,0 +1,81 @@
+/**
+ * Weight utilities
+ * Actual, volumetric (dimensional) and billable weight from the evaluation context
+ */
+
+import type { Dimensions, EvaluationContext, WeightBasis } from "./types.js";
+
+/**
+ * Default dimensional divisor: 5000 cm³ per kg
+ */
+export const DEFAULT_DIMENSIONAL_DIVISOR = 5000;
+
+function volumeOf(dimensions: Dimensions): number {
+  return dimensions.length * dimensions.width * dimensions.height;
+}
+
+/**
+ * Get the actual weight of the order
+ * Uses context.weight, falling back to the sum of line-item weights
+ */
+export function getActualWeight(context: EvaluationContext): number | undefined {
+  if (context.weight !== undefined) return context.weight;
+
+  const weighted = (context.items ?? []).filter((item) => item.weight !== undefined);
+  if (weighted.length === 0) return undefined;
+
+  return weighted.reduce((sum, item) => sum + (item.weight ?? 0) * item.quantity, 0);
+}
+
+/**
+ * Get the volumetric (dimensional) weight of the order
+ * Uses per-item dimensions when available, otherwise the parcel dimensions
+ */
+export function getVolumetricWeight(
+  context: EvaluationContext,
+  divisor: number = DEFAULT_DIMENSIONAL_DIVISOR
+): number | undefined {
+  const measured = (context.items ?? []).filter((item) => item.dimensions !== undefined);
+
+  if (measured.length > 0) {
+    const volume = measured.reduce(
+      (sum, item) => sum + volumeOf(item.dimensions as Dimensions) * item.quantity,
+      0
+    );
+    return volume / divisor;
+  }
+
+  if (context.dimensions) {
+    return volumeOf(context.dimensions) / divisor;
+  }
+
+  return undefined;
+}
+
+/**
+ * Resolve the weight for a given basis
+ * Returns undefined when the context carries nothing to compute it from
+ */
+export function resolveWeight(
+  context: EvaluationContext,
+  basis: WeightBasis = "actual",
+  divisor: number = DEFAULT_DIMENSIONAL_DIVISOR
+): number | undefined {
+  switch (basis) {
+    case "actual":
+      return getActualWeight(context);
+
+    case "volumetric":
+      return getVolumetricWeight(context, divisor);
+
+    case "billable": {
+      const actual = getActualWeight(context);
+      const volumetric = getVolumetricWeight(context, divisor);
+      if (actual === undefined && volumetric === undefined) return undefined;
+      return Math.max(actual ?? 0, volumetric ?? 0);
+    }
+
+    default:
+      return getActualWeight(context);
+  }
+}
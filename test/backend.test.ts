@@ -8,12 +8,24 @@
  * - Availability checking
  * - Price validation
  * - Invalid ID handling
+ * - Strict mode for missing context (default)
+ * - Selection validation against the expected price
+ * - Config revisions and history
+ * - Promotions
+ * - Customer conditions
+ * - Fulfilment locations
  */
 
 import { describe, it, expect } from "vitest";
 import {
   validateShippingConfig,
   getShippingMethodById,
+  validateShippingSelection,
+  getShippingMethodsForDisplay,
+  getConfigRevision,
+  createConfigHistory,
+  registerPricingPlugin,
+  weightBasedPlugin,
   type ShippingConfig,
   type EvaluationContext,
   type ValidatedShippingMethod,
@@ -272,6 +284,830 @@ describe("Backend API - getShippingMethodById()", () => {
     });
   });
 
+  describe("Region and postal code validation", () => {
+    const remoteConfig: ShippingConfig = {
+      version: "1.0",
+      zones: [{ id: "us_remote", areas: [{ country: "US", region: ["US-AK", "US-HI"] }] }],
+      methods: [
+        {
+          id: "shipping.us.mainland",
+          enabled: true,
+          name: "Mainland Shipping",
+          conditions: { geo: { country: { include: ["US"] }, zone: { exclude: ["us_remote"] } } },
+          pricing: { type: "flat", amount: 5 },
+        },
+      ],
+    };
+
+    it("should reject mainland shipping for a remote region", () => {
+      const mainland = getShippingMethodById(remoteConfig, "shipping.us.mainland", {
+        ...baseContext,
+        region: "US-TX",
+      });
+      expect(mainland?.available).toBe(true);
+
+      const remote = getShippingMethodById(remoteConfig, "shipping.us.mainland", {
+        ...baseContext,
+        region: "US-HI",
+      });
+      expect(remote?.available).toBe(false);
+    });
+  });
+
+  describe("Rate table validation", () => {
+    const rateConfig: ShippingConfig = {
+      version: "1.0",
+      methods: [
+        {
+          id: "parcel",
+          enabled: true,
+          name: "Parcel",
+          pricing: {
+            type: "rate_table",
+            key: "weight",
+            brackets: [
+              { upTo: 1, price: 5 },
+              { upTo: 2, price: 7 },
+            ],
+          },
+        },
+      ],
+    };
+
+    it("should return the bracket price", () => {
+      const method = getShippingMethodById(rateConfig, "parcel", { ...baseContext, weight: 1.5 });
+      expect(method?.available).toBe(true);
+      expect(method?.price).toBe(7);
+    });
+
+    it("should be unavailable beyond the last bracket without overflow", () => {
+      const method = getShippingMethodById(rateConfig, "parcel", { ...baseContext, weight: 2.5 });
+      expect(method?.available).toBe(false);
+      expect(method?.price).toBe(0);
+    });
+  });
+
+  describe("Matrix pricing validation", () => {
+    const matrixConfig: ShippingConfig = {
+      version: "1.0",
+      zones: [
+        { id: "us", areas: [{ country: "US" }] },
+        { id: "us_remote", areas: [{ country: "US", region: ["US-AK", "US-HI"] }] },
+      ],
+      methods: [
+        {
+          id: "parcel",
+          enabled: true,
+          name: "Parcel",
+          pricing: {
+            type: "matrix",
+            brackets: [
+              { min: 0, max: 2 },
+              { min: 2, max: 10 },
+            ],
+            rows: [
+              { zone: "us_remote", prices: [15, 35] },
+              { zone: "us", prices: [6, 12] },
+            ],
+          },
+        },
+      ],
+    };
+
+    it("should price the first matching zone row", () => {
+      const mainland = getShippingMethodById(matrixConfig, "parcel", {
+        ...baseContext,
+        region: "US-NY",
+        weight: 3,
+      });
+      expect(mainland?.price).toBe(12);
+
+      const alaska = getShippingMethodById(matrixConfig, "parcel", {
+        ...baseContext,
+        region: "US-AK",
+        weight: 3,
+      });
+      expect(alaska?.price).toBe(35);
+
+      // Strict: without a region, the destination could be in a remote zone row
+      const unknown = getShippingMethodById(matrixConfig, "parcel", { ...baseContext, weight: 3 });
+      expect(unknown?.reasons).toEqual([{ code: "MISSING_CONTEXT", field: "region" }]);
+    });
+  });
+
+  describe("Adjustments", () => {
+    it("should include surcharges in the validated price", () => {
+      const config: ShippingConfig = {
+        version: "1.0",
+        methods: [
+          {
+            id: "ground",
+            enabled: true,
+            name: "Ground",
+            pricing: { type: "flat", amount: 10 },
+            adjustments: [{ id: "fuel", label: "Fuel", type: "percentage_of_shipping", amount: 10 }],
+          },
+        ],
+      };
+
+      const method = getShippingMethodById(config, "ground", baseContext);
+      expect(method?.price).toBe(11);
+      expect(method?.breakdown).toEqual([
+        { type: "base", amount: 10 },
+        { type: "surcharge", id: "fuel", label: "Fuel", amount: 1 },
+      ]);
+    });
+  });
+
+  describe("Currency and rounding", () => {
+    it("should validate prices rounded to the currency and rounding mode", () => {
+      const config: ShippingConfig = {
+        version: "1.0",
+        currency: "JPY",
+        rounding: { mode: "up", increment: 10 },
+        methods: [
+          {
+            id: "ground",
+            enabled: true,
+            name: "Ground",
+            pricing: { type: "value_based", percentage: 3 },
+          },
+        ],
+      };
+
+      const method = getShippingMethodById(config, "ground", { ...baseContext, orderValue: 12345 });
+      expect(method?.price).toBe(380);
+      expect(method?.breakdown).toEqual([
+        { type: "base", amount: 371 },
+        { type: "rounding", amount: 9 },
+      ]);
+    });
+
+    it("should validate prices in the shopper currency", () => {
+      const config: ShippingConfig = {
+        version: "1.0",
+        currency: "USD",
+        methods: [
+          {
+            id: "ground",
+            enabled: true,
+            name: "Ground",
+            conditions: { order: { value: { max: { USD: 200, EUR: 180 } } } },
+            pricing: { type: "flat", amount: { USD: 9.99, EUR: 8.99 } },
+            adjustments: [{ id: "handling", type: "fixed", amount: 1 }],
+          },
+        ],
+      };
+      const options = { exchangeRates: (from: string, to: string) => (to === "EUR" ? 0.9 : undefined) };
+
+      const method = getShippingMethodById(config, "ground", { ...baseContext, currency: "EUR" }, options);
+      expect(method?.available).toBe(true);
+      expect(method?.currency).toBe("EUR");
+      expect(method?.price).toBe(9.89);
+
+      const aboveThreshold = getShippingMethodById(
+        config,
+        "ground",
+        { ...baseContext, orderValue: 190, currency: "EUR" },
+        options
+      );
+      expect(aboveThreshold?.available).toBe(false);
+    });
+
+    it("should reject methods that need a missing exchange rate", () => {
+      const context = { ...baseContext, currency: "GBP" };
+
+      const method = getShippingMethodById(testConfig, "shipping.us.express", context);
+      expect(method).toMatchObject({ available: false, price: 0, currency: "GBP" });
+      expect(method?.reasons).toEqual([{ code: "CURRENCY_UNSUPPORTED", field: "currency" }]);
+
+      const result = validateShippingSelection(testConfig, {
+        id: "shipping.us.standard:tier_free",
+        expectedPrice: 0,
+        context,
+      });
+      expect(result.status).toBe("unavailable");
+    });
+
+    it("should reject methods that need a missing exchange rate with locations", () => {
+      const config: ShippingConfig = {
+        version: "1.0",
+        currency: "USD",
+        locations: [{ id: "us_east", country: "US" }],
+        methods: [
+          {
+            id: "ground",
+            enabled: true,
+            name: "Ground",
+            conditions: { order: { value: { min: 50 } } },
+            pricing: { type: "flat", amount: { USD: 5, EUR: 4.5 } },
+          },
+        ],
+      };
+      const context = { ...baseContext, orderValue: 80, currency: "EUR" };
+
+      const method = getShippingMethodById(config, "ground", context);
+      expect(method?.available).toBe(false);
+      expect(method?.reasons).toEqual([{ code: "CURRENCY_UNSUPPORTED", field: "currency" }]);
+
+      const result = validateShippingSelection(config, { id: "ground", expectedPrice: 4.5, context });
+      expect(result.status).toBe("unavailable");
+    });
+
+    it("should reject price endings outside [0, 1)", () => {
+      expect(() =>
+        validateShippingConfig({ ...testConfig, rounding: { ending: 1.99 } })
+      ).toThrow();
+    });
+  });
+
+  describe("Strict mode", () => {
+    const strictConfig: ShippingConfig = {
+      version: "1.0",
+      currency: "USD",
+      methods: [
+        {
+          id: "standard",
+          enabled: true,
+          name: "Standard",
+          pricing: {
+            type: "tiered",
+            rules: [
+              {
+                id: "tier_free",
+                criteria: { order: { value: { min: 50 }, weight: { max: 5 } } },
+                price: 0,
+              },
+              { id: "tier_paid", criteria: {}, price: 6.99 },
+            ],
+          },
+        },
+        {
+          id: "holiday",
+          enabled: true,
+          name: "Holiday Express",
+          conditions: { date: { after: "2024-12-01", before: "2024-12-24" } },
+          pricing: { type: "flat", amount: 4.99 },
+        },
+        {
+          id: "heavy",
+          enabled: true,
+          name: "Freight",
+          pricing: { type: "custom", plugin: "weight_based", config: { ratePerKg: 2, minCharge: 5 } },
+        },
+      ],
+    };
+
+    it("should reject tiers whose criteria need missing context", () => {
+      const method = getShippingMethodById(strictConfig, "standard:tier_free", baseContext);
+      expect(method?.available).toBe(false);
+      expect(method?.reasons).toEqual([{ code: "MISSING_CONTEXT", field: "weight" }]);
+
+      const weighed = getShippingMethodById(strictConfig, "standard:tier_free", { ...baseContext, weight: 2 });
+      expect(weighed?.available).toBe(true);
+      expect(weighed?.reasons).toBeUndefined();
+    });
+
+    it("should reject methods whose conditions or pricing need missing context", () => {
+      registerPricingPlugin("weight_based", weightBasedPlugin);
+
+      const holiday = getShippingMethodById(strictConfig, "holiday", baseContext);
+      expect(holiday?.available).toBe(false);
+      expect(holiday?.reasons).toEqual([{ code: "MISSING_CONTEXT", field: "orderDate" }]);
+
+      const heavy = getShippingMethodById(strictConfig, "heavy", baseContext);
+      expect(heavy?.available).toBe(false);
+      expect(heavy?.reasons).toEqual([{ code: "MISSING_CONTEXT", field: "weight" }]);
+      expect(getShippingMethodById(strictConfig, "heavy", { ...baseContext, weight: 4 })?.price).toBe(8);
+    });
+
+    it("should need the region and postal code of geo and zone conditions", () => {
+      const config: ShippingConfig = {
+        version: "1.0",
+        currency: "USD",
+        zones: [
+          { id: "us_remote", areas: [{ country: "US", region: ["US-AK", "US-HI"] }] },
+          { id: "nyc", areas: [{ country: "US", postalCode: [{ prefix: "100" }] }] },
+        ],
+        methods: [
+          {
+            id: "mainland",
+            enabled: true,
+            name: "Mainland",
+            conditions: { geo: { region: { exclude: ["US-AK", "US-HI"] } } },
+            pricing: { type: "flat", amount: 5 },
+          },
+          {
+            id: "no_po_boxes",
+            enabled: true,
+            name: "Courier",
+            conditions: { geo: { postalCode: { exclude: [{ prefix: "090" }] } } },
+            pricing: { type: "flat", amount: 9 },
+          },
+          {
+            id: "remote_zone",
+            enabled: true,
+            name: "Zone",
+            conditions: { geo: { zone: { exclude: ["us_remote"] } } },
+            pricing: { type: "flat", amount: 6 },
+          },
+          {
+            id: "nyc_zone",
+            enabled: true,
+            name: "Same day",
+            conditions: { geo: { zone: { include: ["nyc"] } } },
+            pricing: { type: "flat", amount: 12 },
+          },
+        ],
+      };
+      const missing = (id: string, context: EvaluationContext) =>
+        getShippingMethodById(config, id, context)?.reasons;
+
+      expect(missing("mainland", baseContext)).toEqual([{ code: "MISSING_CONTEXT", field: "region" }]);
+      expect(missing("no_po_boxes", baseContext)).toEqual([{ code: "MISSING_CONTEXT", field: "postalCode" }]);
+      expect(missing("remote_zone", baseContext)).toEqual([{ code: "MISSING_CONTEXT", field: "region" }]);
+      expect(missing("nyc_zone", baseContext)).toEqual([{ code: "MISSING_CONTEXT", field: "postalCode" }]);
+
+      const complete = { ...baseContext, region: "US-NY", postalCode: "10001" };
+      for (const id of ["mainland", "no_po_boxes", "remote_zone", "nyc_zone"]) {
+        expect(getShippingMethodById(config, id, complete)?.available).toBe(true);
+      }
+      expect(getShippingMethodById(config, "mainland", { ...complete, region: "US-AK" })?.available).toBe(false);
+    });
+
+    it("should not need context an anyOf alternative is met without", () => {
+      const config: ShippingConfig = {
+        version: "1.0",
+        currency: "USD",
+        methods: [
+          {
+            id: "promo_express",
+            enabled: true,
+            name: "Express",
+            conditions: {
+              anyOf: [{ order: { value: { min: 100 } } }, { date: { after: "2024-12-01" } }],
+            },
+            pricing: { type: "flat", amount: 4.99 },
+          },
+        ],
+      };
+
+      const large = getShippingMethodById(config, "promo_express", { ...baseContext, orderValue: 150 });
+      expect(large?.available).toBe(true);
+
+      const small = getShippingMethodById(config, "promo_express", { ...baseContext, orderValue: 50 });
+      expect(small?.available).toBe(false);
+      expect(small?.reasons).toEqual([{ code: "MISSING_CONTEXT", field: "orderDate" }]);
+    });
+
+    it("should apply a per-field policy or opt out", () => {
+      const datesOnly = { strict: { orderDate: true } };
+      expect(getShippingMethodById(strictConfig, "standard:tier_free", baseContext, datesOnly)?.available).toBe(true);
+      expect(getShippingMethodById(strictConfig, "holiday", baseContext, datesOnly)?.available).toBe(false);
+
+      const lenient = getShippingMethodById(strictConfig, "holiday", baseContext, { strict: false });
+      expect(lenient?.available).toBe(true);
+      expect(lenient?.reasons).toBeUndefined();
+    });
+  });
+
+  describe("Unavailability reasons", () => {
+    it("should explain an ineligible tier", () => {
+      const method = getShippingMethodById(testConfig, "shipping.us.standard:tier_free", baseContext);
+      expect(method?.available).toBe(false);
+      expect(method?.reasons).toEqual([
+        { code: "ORDER_VALUE_BELOW_MIN", field: "orderValue", required: 100, actual: 75 },
+      ]);
+    });
+
+    it("should explain geo exclusions and disabled methods", () => {
+      const canada = getShippingMethodById(testConfig, "shipping.ca.standard", baseContext);
+      expect(canada?.reasons).toEqual([{ code: "GEO_EXCLUDED", field: "country" }]);
+
+      const disabledConfig: ShippingConfig = {
+        ...testConfig,
+        methods: testConfig.methods.map((m) => ({ ...m, enabled: false })),
+      };
+      const disabled = getShippingMethodById(disabledConfig, "shipping.us.express", baseContext);
+      expect(disabled?.available).toBe(false);
+      expect(disabled?.reasons).toEqual([{ code: "DISABLED" }]);
+    });
+
+    it("should list the reasons of every anyOf alternative", () => {
+      const config: ShippingConfig = {
+        version: "1.0",
+        methods: [
+          {
+            id: "bulky",
+            enabled: true,
+            name: "Bulky",
+            conditions: {
+              anyOf: [{ order: { items: { min: 3 } } }, { geo: { country: { include: ["CA"] } } }],
+            },
+            pricing: { type: "flat", amount: 20 },
+          },
+        ],
+      };
+
+      expect(getShippingMethodById(config, "bulky", baseContext)?.reasons).toEqual([
+        { code: "ITEM_COUNT_BELOW_MIN", field: "itemCount", required: 3, actual: 2 },
+        { code: "GEO_EXCLUDED", field: "country" },
+      ]);
+    });
+
+    it("should explain dates outside the window and missing rates", () => {
+      const config: ShippingConfig = {
+        version: "1.0",
+        methods: [
+          {
+            id: "holiday",
+            enabled: true,
+            name: "Holiday",
+            conditions: { date: { after: "2024-12-01", before: "2024-12-24" } },
+            pricing: { type: "flat", amount: 4.99 },
+          },
+          {
+            id: "parcel",
+            enabled: true,
+            name: "Parcel",
+            pricing: { type: "rate_table", key: "items", brackets: [{ upTo: 1, price: 5 }] },
+          },
+        ],
+      };
+
+      const late = getShippingMethodById(config, "holiday", {
+        ...baseContext,
+        orderDate: new Date("2024-12-28T12:00:00Z"),
+      });
+      expect(late?.reasons).toEqual([{ code: "DATE_OUTSIDE_WINDOW", field: "orderDate" }]);
+
+      const parcel = getShippingMethodById(config, "parcel", baseContext);
+      expect(parcel?.reasons).toEqual([{ code: "NO_MATCHING_RATE" }]);
+    });
+  });
+
+  describe("Tier fallback", () => {
+    const fallbackConfig: ShippingConfig = {
+      version: "1.0",
+      methods: [
+        {
+          id: "standard",
+          enabled: true,
+          name: "Standard",
+          conditions: { geo: { country: { include: ["US"] } } },
+          pricing: {
+            type: "tiered",
+            rules: [
+              { id: "tier_free", criteria: { order: { value: { min: 100 } } }, price: 0 },
+              { id: "tier_priority", criteria: { order: { items: { min: 2 } } }, price: 7.97 },
+              { id: "tier_paid", criteria: {}, price: 4.97 },
+            ],
+          },
+        },
+      ],
+    };
+
+    it("should keep stale tiers unavailable without a fallback", () => {
+      const method = getShippingMethodById(fallbackConfig, "standard:tier_free", baseContext);
+      expect(method?.available).toBe(false);
+      expect(method?.substitutedFrom).toBeUndefined();
+    });
+
+    it("should substitute a tier per the fallback policy", () => {
+      const byPolicy = (tierFallback: "matching" | "cheapest" | "most_expensive") =>
+        getShippingMethodById(fallbackConfig, "standard:tier_free", baseContext, { tierFallback });
+
+      const matching = byPolicy("matching");
+      expect(matching).toMatchObject({
+        id: "standard:tier_priority",
+        tierId: "tier_priority",
+        price: 7.97,
+        available: true,
+        substitutedFrom: "standard:tier_free",
+      });
+      expect(byPolicy("cheapest")?.tierId).toBe("tier_paid");
+      expect(byPolicy("most_expensive")?.tierId).toBe("tier_priority");
+    });
+
+    it("should not substitute eligible tiers or tiers of unavailable methods", () => {
+      const options = { tierFallback: "cheapest" as const };
+
+      const eligible = getShippingMethodById(fallbackConfig, "standard:tier_priority", baseContext, options);
+      expect(eligible?.tierId).toBe("tier_priority");
+      expect(eligible?.substitutedFrom).toBeUndefined();
+
+      const abroad = getShippingMethodById(
+        fallbackConfig,
+        "standard:tier_free",
+        { ...baseContext, country: "CA" },
+        options
+      );
+      expect(abroad?.available).toBe(false);
+      expect(abroad?.substitutedFrom).toBeUndefined();
+    });
+
+    it("should report the substituted price when validating a selection", () => {
+      const result = validateShippingSelection(
+        fallbackConfig,
+        { id: "standard:tier_free", expectedPrice: 0, context: baseContext },
+        { tierFallback: "cheapest" }
+      );
+      expect(result.status).toBe("price_changed");
+      if (result.status === "price_changed") {
+        expect(result.price).toBe(4.97);
+        expect(result.method.substitutedFrom).toBe("standard:tier_free");
+      }
+    });
+  });
+
+  describe("validateShippingSelection()", () => {
+    const validate = (id: string, expectedPrice: number, context: EvaluationContext = baseContext) =>
+      validateShippingSelection(testConfig, { id, expectedPrice, context });
+
+    it("should accept a selection at the expected price", () => {
+      const result = validate("shipping.us.standard:tier_paid", 4.97);
+      expect(result.status).toBe("ok");
+      if (result.status === "ok") {
+        expect(result.price).toBe(4.97);
+        expect(result.method.tierId).toBe("tier_paid");
+      }
+    });
+
+    it("should report price changes beyond the tolerance", () => {
+      const result = validate("shipping.us.express", 8.97);
+      expect(result).toMatchObject({ status: "price_changed", price: 9.97, expectedPrice: 8.97, difference: 1 });
+
+      const withinAmount = validateShippingSelection(
+        testConfig,
+        { id: "shipping.us.express", expectedPrice: 9.95, context: baseContext },
+        { tolerance: { amount: 0.05 } }
+      );
+      expect(withinAmount.status).toBe("ok");
+
+      const withinPercentage = validateShippingSelection(
+        testConfig,
+        { id: "shipping.us.express", expectedPrice: 9.5, context: baseContext },
+        { tolerance: { percentage: 5 } }
+      );
+      expect(withinPercentage.status).toBe("ok");
+    });
+
+    it("should reject unknown methods and tiers", () => {
+      expect(validate("shipping.unknown", 0)).toEqual({ status: "unknown_method", id: "shipping.unknown" });
+      expect(validate("shipping.us.standard:tier_gold", 0)).toMatchObject({
+        status: "unknown_tier",
+        methodId: "shipping.us.standard",
+      });
+      // A tiered method can't be selected without a tier, nor a flat one with a tier
+      expect(validate("shipping.us.standard", 0).status).toBe("unknown_tier");
+      expect(validate("shipping.us.express:tier_free", 9.97).status).toBe("unknown_tier");
+    });
+
+    it("should tell ineligible tiers from unavailable methods", () => {
+      const freeTier = validate("shipping.us.standard:tier_free", 0);
+      expect(freeTier.status).toBe("tier_not_eligible");
+      if (freeTier.status === "tier_not_eligible") {
+        expect(freeTier.reasons[0].code).toBe("ORDER_VALUE_BELOW_MIN");
+      }
+
+      const canada = validate("shipping.ca.standard", 12.97);
+      expect(canada).toMatchObject({ status: "unavailable", reasons: [{ code: "GEO_EXCLUDED" }] });
+
+      const abroad = validate("shipping.us.standard:tier_paid", 4.97, { ...baseContext, country: "CA" });
+      expect(abroad.status).toBe("unavailable");
+    });
+
+    it("should reject disabled methods", () => {
+      const config: ShippingConfig = {
+        ...testConfig,
+        methods: testConfig.methods.map((m) => ({ ...m, enabled: false })),
+      };
+      const result = validateShippingSelection(config, {
+        id: "shipping.us.express",
+        expectedPrice: 9.97,
+        context: baseContext,
+      });
+      expect(result.status).toBe("disabled");
+    });
+  });
+
+  describe("Config revisions", () => {
+    const repriced: ShippingConfig = {
+      ...testConfig,
+      methods: testConfig.methods.map((m) =>
+        m.id === "shipping.us.express" ? { ...m, pricing: { type: "flat", amount: 12.97 } } : m
+      ),
+    };
+
+    it("should identify configs by content", () => {
+      const reordered = JSON.parse(JSON.stringify({ methods: testConfig.methods, ...testConfig }));
+
+      expect(getConfigRevision(testConfig)).toMatch(/^[0-9a-f]{16}$/);
+      expect(getConfigRevision(reordered)).toBe(getConfigRevision(testConfig));
+      expect(getConfigRevision(repriced)).not.toBe(getConfigRevision(testConfig));
+    });
+
+    it("should stamp the revision on display and validated methods", () => {
+      const revision = getConfigRevision(testConfig);
+
+      const displayed = getShippingMethodsForDisplay(testConfig, baseContext);
+      expect(displayed.every((m) => m.revision === revision)).toBe(true);
+      expect(getShippingMethodById(testConfig, "shipping.us.express", baseContext)?.revision).toBe(revision);
+    });
+
+    it("should validate against an earlier revision from the history", () => {
+      const history = createConfigHistory();
+      const original = history.add(testConfig);
+      history.add(repriced);
+
+      const current = getShippingMethodById(repriced, "shipping.us.express", baseContext);
+      expect(current?.price).toBe(12.97);
+
+      const earlier = getShippingMethodById(repriced, "shipping.us.express", baseContext, {
+        revision: original,
+        history,
+      });
+      expect(earlier?.price).toBe(9.97);
+      expect(earlier?.revision).toBe(original);
+
+      expect(() =>
+        getShippingMethodById(repriced, "shipping.us.express", baseContext, { revision: "0000", history })
+      ).toThrow("Unknown config revision: 0000");
+    });
+
+    it("should report an unknown revision as a selection status", () => {
+      const history = createConfigHistory(1);
+      const original = history.add(testConfig);
+      history.add(repriced);
+
+      const result = validateShippingSelection(
+        repriced,
+        { id: "shipping.us.express", expectedPrice: 9.97, context: baseContext },
+        { revision: original, history }
+      );
+      expect(result).toEqual({ status: "unknown_revision", revision: original });
+    });
+
+    it("should keep only the most recent revisions", () => {
+      const history = createConfigHistory(1);
+      const original = history.add(testConfig);
+      const latest = history.add(repriced);
+
+      expect(history.revisions()).toEqual([latest]);
+      expect(history.get(original)).toBeUndefined();
+    });
+  });
+
+  describe("Promotions", () => {
+    const promoConfig: ShippingConfig = {
+      ...testConfig,
+      promotions: [
+        {
+          id: "free_standard",
+          type: "free_shipping",
+          couponCodes: ["SHIPFREE"],
+          methods: ["shipping.us.standard:tier_paid"],
+        },
+        { id: "loyalty", type: "fixed", value: 2, segments: ["loyalty"] },
+      ],
+    };
+
+    it("should price selections after promotions", () => {
+      const result = getShippingMethodById(promoConfig, "shipping.us.standard:tier_paid", {
+        ...baseContext,
+        couponCodes: ["SHIPFREE"],
+      });
+
+      expect(result).toMatchObject({ price: 0, originalPrice: 4.97, appliedPromotions: ["free_standard"] });
+      expect(result?.breakdown?.reduce((sum, line) => sum + line.amount, 0)).toBeCloseTo(0);
+    });
+
+    it("should match the frontend price with promotions", () => {
+      const context = { ...baseContext, customer: { segments: ["loyalty"] } };
+      const displayed = getShippingMethodsForDisplay(promoConfig, context).find(
+        (m) => m.id === "shipping.us.express"
+      );
+      const validated = getShippingMethodById(promoConfig, "shipping.us.express", context);
+
+      expect(validated?.price).toBe(7.97);
+      expect(validated?.price).toBe(displayed?.price);
+      expect(validated?.appliedPromotions).toEqual(["loyalty"]);
+    });
+
+    it("should reject selections priced with a coupon that is no longer applied", () => {
+      const result = validateShippingSelection(promoConfig, {
+        id: "shipping.us.standard:tier_paid",
+        expectedPrice: 0,
+        context: baseContext,
+      });
+
+      expect(result.status).toBe("price_changed");
+    });
+  });
+
+  describe("Customer conditions", () => {
+    const memberConfig: ShippingConfig = {
+      ...testConfig,
+      methods: [
+        {
+          id: "members",
+          enabled: true,
+          name: "Members 2-day",
+          conditions: { customer: { membership: { include: ["prime"] } } },
+          pricing: { type: "flat", amount: 0 },
+        },
+      ],
+    };
+
+    it("should explain customer mismatches", () => {
+      const result = getShippingMethodById(memberConfig, "members", {
+        ...baseContext,
+        customer: { membership: "basic" },
+      });
+
+      expect(result?.available).toBe(false);
+      expect(result?.reasons).toEqual([{ code: "CUSTOMER_MISMATCH", field: "membership" }]);
+    });
+
+    it("should require the customer by default", () => {
+      const result = getShippingMethodById(memberConfig, "members", baseContext);
+      expect(result?.reasons).toEqual([{ code: "MISSING_CONTEXT", field: "customer" }]);
+
+      const member = getShippingMethodById(memberConfig, "members", {
+        ...baseContext,
+        customer: { membership: "prime" },
+      });
+      expect(member?.available).toBe(true);
+    });
+  });
+
+  describe("Fulfilment locations", () => {
+    const locationConfig: ShippingConfig = {
+      ...testConfig,
+      locations: [
+        { id: "us_east", country: "US" },
+        { id: "ca_store", country: "CA", methods: ["shipping.ca.standard"] },
+      ],
+    };
+
+    it("should report the origin a method ships from", () => {
+      const result = getShippingMethodById(locationConfig, "shipping.us.express", baseContext);
+      expect(result).toMatchObject({ available: true, origin: "us_east" });
+    });
+
+    it("should reject methods no candidate location ships", () => {
+      const result = getShippingMethodById(locationConfig, "shipping.us.express", {
+        ...baseContext,
+        origin: "ca_store",
+      });
+
+      expect(result?.available).toBe(false);
+      expect(result?.reasons).toEqual([{ code: "ORIGIN_UNSUPPORTED", field: "origin" }]);
+    });
+  });
+
+  describe("Pickup methods", () => {
+    const pickupConfig: ShippingConfig = {
+      ...testConfig,
+      methods: [
+        ...testConfig.methods,
+        {
+          id: "pickup.store",
+          enabled: true,
+          name: "Store pickup",
+          fulfillment: "pickup",
+          pickupRadius: 25,
+          pickupLocations: [
+            {
+              id: "soho",
+              address: { line1: "1 Spring St", city: "New York", country: "US" },
+              coordinates: { latitude: 40.7243, longitude: -74.001 },
+            },
+          ],
+          pricing: { type: "flat", amount: 0 },
+        },
+      ],
+    };
+
+    it("should accept a pickup method with a location in reach", () => {
+      const result = getShippingMethodById(pickupConfig, "pickup.store", {
+        ...baseContext,
+        coordinates: { latitude: 40.7128, longitude: -74.006 },
+      });
+      expect(result).toMatchObject({ available: true, fulfillment: "pickup" });
+    });
+
+    it("should reject a pickup method without a location in reach", () => {
+      const result = getShippingMethodById(pickupConfig, "pickup.store", {
+        ...baseContext,
+        coordinates: { latitude: 34.0522, longitude: -118.2437 },
+      });
+
+      expect(result?.available).toBe(false);
+      expect(result?.reasons).toEqual([{ code: "NO_PICKUP_LOCATION" }]);
+    });
+  });
+
   describe("Configuration validation", () => {
     it("should work with validated config", () => {
       expect(() => validateShippingConfig(testConfig)).not.toThrow();
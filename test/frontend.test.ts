@@ -14,8 +14,14 @@ import { describe, it, expect } from "vitest";
 import {
   validateShippingConfig,
   getShippingMethodsForDisplay,
+  registerPricingPlugin,
+  estimateDeliveryDates,
+  NoWorkingDayError,
   type ShippingConfig,
+  type ShippingMethod,
   type EvaluationContext,
+  type DisplayShippingMethod,
+  type Weekday,
 } from "../src/index";
 
 // Helper to test individual shipping methods
@@ -1136,3 +1142,2006 @@ describe("Date-based criteria for seasonal/holiday pricing", () => {
     });
   });
 });
+
+describe("Geo conditions - region, postal code and zones", () => {
+  const geoConfig = {
+    version: "1.0",
+    zones: [
+      {
+        id: "us_remote",
+        name: "Alaska & Hawaii",
+        areas: [{ country: "US", region: ["US-AK", "US-HI"] }],
+      },
+      {
+        id: "us_pr_zips",
+        areas: [{ country: "US", postalCode: [{ prefix: "006" }, { prefix: "007" }] }],
+      },
+    ],
+    methods: [
+      {
+        id: "shipping.us.mainland",
+        enabled: true,
+        name: "Mainland Shipping",
+        conditions: {
+          geo: {
+            country: { include: ["US"] },
+            zone: { exclude: ["us_remote", "us_pr_zips"] },
+          },
+        },
+        pricing: { type: "flat", amount: 5 },
+      },
+      {
+        id: "shipping.us.remote",
+        enabled: true,
+        name: "Remote Shipping",
+        conditions: {
+          geo: { zone: { include: ["us_remote"] } },
+        },
+        pricing: { type: "flat", amount: 25 },
+      },
+      {
+        id: "shipping.ca.remote",
+        enabled: true,
+        name: "Canada Remote",
+        conditions: {
+          geo: {
+            country: { include: ["CA"] },
+            region: { include: ["CA-NU", "CA-NT", "CA-YT"] },
+          },
+        },
+        pricing: { type: "flat", amount: 40 },
+      },
+      {
+        id: "shipping.hi.islands",
+        enabled: true,
+        name: "Hawaii Zip Range",
+        conditions: {
+          geo: {
+            postalCode: {
+              include: [{ range: { min: "96701", max: "96898" } }],
+              exclude: ["96799", { regex: "^9685[0-9]" }],
+            },
+          },
+        },
+        pricing: { type: "flat", amount: 30 },
+      },
+    ],
+  } as any;
+
+  const ids = (context: EvaluationContext) =>
+    getShippingMethodsForDisplay(geoConfig, context).map((m) => m.id);
+
+  it("should price Alaska through the remote zone instead of mainland", () => {
+    const result = ids({ orderValue: 50, itemCount: 1, country: "US", region: "US-AK" });
+    expect(result).toEqual(["shipping.us.remote"]);
+  });
+
+  it("should use mainland shipping when region is outside the remote zone", () => {
+    const result = ids({ orderValue: 50, itemCount: 1, country: "US", region: "US-CA", postalCode: "90210" });
+    expect(result).toEqual(["shipping.us.mainland"]);
+  });
+
+  it("should match zones by postal code prefix", () => {
+    const result = ids({ orderValue: 50, itemCount: 1, country: "US", postalCode: "00716" });
+    expect(result).not.toContain("shipping.us.mainland");
+  });
+
+  it("should require a region for region include lists", () => {
+    expect(ids({ orderValue: 50, itemCount: 1, country: "CA", region: "CA-NU" })).toEqual([
+      "shipping.ca.remote",
+    ]);
+    expect(ids({ orderValue: 50, itemCount: 1, country: "CA", region: "CA-ON" })).toEqual([]);
+    expect(ids({ orderValue: 50, itemCount: 1, country: "CA" })).toEqual([]);
+  });
+
+  it("should support numeric ranges, exact codes and regex exclusions", () => {
+    const match = (postalCode: string) =>
+      ids({ orderValue: 50, itemCount: 1, country: "XX", postalCode }).includes("shipping.hi.islands");
+
+    expect(match("96701")).toBe(true);
+    expect(match("96815-1234")).toBe(true);
+    expect(match("96799")).toBe(false);
+    expect(match("96853")).toBe(false);
+    expect(match("96900")).toBe(false);
+  });
+
+  it("should normalize whitespace and case in postal codes", () => {
+    const config = {
+      version: "1.0",
+      methods: [
+        {
+          id: "uk.highlands",
+          enabled: true,
+          name: "Highlands",
+          conditions: { geo: { postalCode: { include: ["IV1 1AA", { prefix: "hs" }] } } },
+          pricing: { type: "flat", amount: 12 },
+        },
+      ],
+    } as any;
+
+    expect(getShippingMethodsForDisplay(config, { orderValue: 1, itemCount: 1, country: "GB", postalCode: "iv11aa" })).toHaveLength(1);
+    expect(getShippingMethodsForDisplay(config, { orderValue: 1, itemCount: 1, country: "GB", postalCode: "HS1 2AB" })).toHaveLength(1);
+    expect(getShippingMethodsForDisplay(config, { orderValue: 1, itemCount: 1, country: "GB", postalCode: "EC1A 1BB" })).toHaveLength(0);
+  });
+
+  it("should validate zones and reject unknown zone references", () => {
+    expect(() => validateShippingConfig(geoConfig)).not.toThrow();
+
+    const badRef = {
+      ...geoConfig,
+      zones: [],
+    };
+    expect(() => validateShippingConfig(badRef)).toThrow(/unknown zone "us_remote"/);
+
+    const badRegex = {
+      version: "1.0",
+      methods: [
+        {
+          id: "bad",
+          enabled: true,
+          name: "Bad",
+          conditions: { geo: { postalCode: { include: [{ regex: "[" }] } } },
+          pricing: { type: "flat", amount: 1 },
+        },
+      ],
+    };
+    expect(() => validateShippingConfig(badRegex)).toThrow(/postal code regex/);
+  });
+
+  it("should reject postal code ranges that are not ordered numbers of equal length", () => {
+    const withRange = (min: string, max: string) => ({
+      version: "1.0",
+      methods: [
+        {
+          id: "ranged",
+          enabled: true,
+          name: "Ranged",
+          conditions: { geo: { postalCode: { include: [{ range: { min, max } }] } } },
+          pricing: { type: "flat", amount: 1 },
+        },
+      ],
+    });
+
+    expect(() => validateShippingConfig(withRange("1000", "19999"))).toThrow(/postal code range/);
+    expect(() => validateShippingConfig(withRange("ABC", "XYZ"))).toThrow(/postal code range/);
+    expect(() => validateShippingConfig(withRange("20000", "10000"))).toThrow(/postal code range/);
+    expect(() => validateShippingConfig(withRange("01000", "09999"))).not.toThrow();
+
+    const zoneRange = {
+      ...geoConfig,
+      zones: [
+        ...geoConfig.zones,
+        { id: "us_hi_zips", areas: [{ country: "US", postalCode: [{ range: { min: "967", max: "96898" } }] }] },
+      ],
+    };
+    expect(() => validateShippingConfig(zoneRange)).toThrow(/postal code range "967"-"96898"/);
+  });
+});
+
+describe("Boolean condition composition (allOf / anyOf / not)", () => {
+  const composedConfig = {
+    version: "1.0",
+    methods: [
+      {
+        id: "shipping.free",
+        enabled: true,
+        name: "Free Shipping",
+        conditions: {
+          anyOf: [
+            { geo: { country: { include: ["US"] } }, order: { value: { min: 50 } } },
+            { geo: { country: { include: ["CA"] } }, order: { value: { min: 80 } } },
+          ],
+        },
+        pricing: { type: "flat", amount: 0 },
+      },
+      {
+        id: "shipping.intl",
+        enabled: true,
+        name: "International",
+        conditions: {
+          not: { geo: { country: { include: ["US", "CA"] } } },
+        },
+        pricing: { type: "flat", amount: 30 },
+      },
+      {
+        id: "shipping.bulk",
+        enabled: true,
+        name: "Bulk",
+        conditions: {
+          allOf: [
+            { order: { items: { min: 10 } } },
+            { anyOf: [{ order: { value: { min: 500 } } }, { order: { weight: { min: 20 } } }] },
+          ],
+        },
+        pricing: { type: "flat", amount: 15 },
+      },
+    ],
+  } as any;
+
+  const ids = (context: EvaluationContext) =>
+    getShippingMethodsForDisplay(composedConfig, context).map((m) => m.id);
+
+  it("should express OR across geo and order value", () => {
+    expect(ids({ orderValue: 60, itemCount: 1, country: "US" })).toContain("shipping.free");
+    expect(ids({ orderValue: 60, itemCount: 1, country: "CA" })).not.toContain("shipping.free");
+    expect(ids({ orderValue: 90, itemCount: 1, country: "CA" })).toContain("shipping.free");
+  });
+
+  it("should negate a condition with not", () => {
+    expect(ids({ orderValue: 10, itemCount: 1, country: "DE" })).toContain("shipping.intl");
+    expect(ids({ orderValue: 10, itemCount: 1, country: "US" })).not.toContain("shipping.intl");
+  });
+
+  it("should nest anyOf inside allOf", () => {
+    expect(ids({ orderValue: 100, itemCount: 12, weight: 25, country: "DE" })).toContain("shipping.bulk");
+    expect(ids({ orderValue: 600, itemCount: 12, country: "DE" })).toContain("shipping.bulk");
+    expect(ids({ orderValue: 100, itemCount: 12, weight: 5, country: "DE" })).not.toContain("shipping.bulk");
+    expect(ids({ orderValue: 600, itemCount: 2, country: "DE" })).not.toContain("shipping.bulk");
+  });
+
+  it("should support composition in tier criteria", () => {
+    const config = {
+      version: "1.0",
+      methods: [
+        {
+          id: "standard",
+          enabled: true,
+          name: "Standard",
+          pricing: {
+            type: "tiered",
+            rules: [
+              {
+                id: "tier_free",
+                criteria: {
+                  anyOf: [{ order: { value: { min: 100 } } }, { order: { items: { min: 5 } } }],
+                },
+                price: 0,
+              },
+              { id: "tier_paid", criteria: {}, price: 5 },
+            ],
+          },
+        },
+      ],
+    } as any;
+
+    const tier = (context: EvaluationContext) => getShippingMethodsForDisplay(config, context)[0].tierId;
+
+    expect(tier({ orderValue: 20, itemCount: 6, country: "US" })).toBe("tier_free");
+    expect(tier({ orderValue: 120, itemCount: 1, country: "US" })).toBe("tier_free");
+    expect(tier({ orderValue: 20, itemCount: 1, country: "US" })).toBe("tier_paid");
+  });
+
+  it("should validate nested condition trees", () => {
+    expect(() => validateShippingConfig(composedConfig)).not.toThrow();
+
+    const emptyAnyOf = {
+      version: "1.0",
+      methods: [
+        {
+          id: "bad",
+          enabled: true,
+          name: "Bad",
+          conditions: { allOf: [{ anyOf: [] }] },
+          pricing: { type: "flat", amount: 1 },
+        },
+      ],
+    };
+    expect(() => validateShippingConfig(emptyAnyOf)).toThrow(/Invalid shipping configuration/);
+
+    const nestedUnknownZone = {
+      version: "1.0",
+      methods: [
+        {
+          id: "bad",
+          enabled: true,
+          name: "Bad",
+          conditions: { not: { geo: { zone: { include: ["missing"] } } } },
+          pricing: { type: "flat", amount: 1 },
+        },
+      ],
+    };
+    expect(() => validateShippingConfig(nestedUnknownZone)).toThrow(/unknown zone "missing"/);
+  });
+});
+
+describe("Cart line-item conditions", () => {
+  const cartConfig = {
+    version: "1.0",
+    methods: [
+      {
+        id: "shipping.air",
+        enabled: true,
+        name: "Air Express",
+        conditions: { cart: { tags: { none: ["hazmat", "oversized"] } } },
+        pricing: { type: "flat", amount: 20 },
+      },
+      {
+        id: "shipping.cold_chain",
+        enabled: true,
+        name: "Cold Chain",
+        conditions: { cart: { tags: { any: ["frozen"] } } },
+        pricing: { type: "flat", amount: 35 },
+      },
+      {
+        id: "shipping.email",
+        enabled: true,
+        name: "Email Delivery",
+        conditions: { cart: { allItemsHaveTag: "digital" } },
+        pricing: { type: "flat", amount: 0 },
+      },
+      {
+        id: "shipping.bundle",
+        enabled: true,
+        name: "Bundle Courier",
+        conditions: { cart: { sku: { include: ["BUNDLE-1"], exclude: ["GIFT-CARD"] } } },
+        pricing: { type: "flat", amount: 8 },
+      },
+      {
+        id: "shipping.furniture",
+        enabled: true,
+        name: "White Glove",
+        conditions: { cart: { categories: { any: ["furniture"] } } },
+        pricing: { type: "flat", amount: 99 },
+      },
+    ],
+  } as any;
+
+  const ids = (items?: EvaluationContext["items"]) =>
+    getShippingMethodsForDisplay(cartConfig, { orderValue: 50, itemCount: 1, country: "US", items }).map(
+      (m) => m.id
+    );
+
+  it("should exclude methods when the cart has hazmat or oversized items", () => {
+    expect(ids([{ sku: "A", quantity: 1, tags: ["fragile"] }])).toContain("shipping.air");
+    expect(ids([{ sku: "A", quantity: 1 }, { sku: "B", quantity: 1, tags: ["hazmat"] }])).not.toContain(
+      "shipping.air"
+    );
+  });
+
+  it("should require at least one matching tag for tags.any", () => {
+    expect(ids([{ sku: "ICE", quantity: 2, tags: ["frozen"] }])).toContain("shipping.cold_chain");
+    expect(ids([{ sku: "A", quantity: 1 }])).not.toContain("shipping.cold_chain");
+  });
+
+  it("should require every item to carry the tag for allItemsHaveTag", () => {
+    expect(ids([{ sku: "EBOOK", quantity: 1, tags: ["digital"] }])).toContain("shipping.email");
+    expect(
+      ids([
+        { sku: "EBOOK", quantity: 1, tags: ["digital"] },
+        { sku: "BOOK", quantity: 1, tags: ["paper"] },
+      ])
+    ).not.toContain("shipping.email");
+    expect(ids([])).not.toContain("shipping.email");
+  });
+
+  it("should match SKU include and exclude lists", () => {
+    expect(ids([{ sku: "BUNDLE-1", quantity: 1 }])).toContain("shipping.bundle");
+    expect(ids([{ sku: "BUNDLE-1", quantity: 1 }, { sku: "GIFT-CARD", quantity: 1 }])).not.toContain(
+      "shipping.bundle"
+    );
+  });
+
+  it("should match item categories", () => {
+    expect(ids([{ sku: "SOFA", quantity: 1, categories: ["furniture"] }])).toContain("shipping.furniture");
+  });
+
+  it("should treat missing line items as unknown", () => {
+    const result = ids(undefined);
+    expect(result).toContain("shipping.air");
+    expect(result).not.toContain("shipping.cold_chain");
+    expect(result).not.toContain("shipping.email");
+    expect(result).not.toContain("shipping.bundle");
+  });
+
+  it("should validate cart conditions", () => {
+    expect(() => validateShippingConfig(cartConfig)).not.toThrow();
+
+    const invalid = {
+      version: "1.0",
+      methods: [
+        {
+          id: "bad",
+          enabled: true,
+          name: "Bad",
+          conditions: { cart: { tags: { any: "hazmat" } } },
+          pricing: { type: "flat", amount: 1 },
+        },
+      ],
+    };
+    expect(() => validateShippingConfig(invalid)).toThrow(/Invalid shipping configuration/);
+  });
+});
+
+describe("Dimensional (volumetric) weight", () => {
+  const parcel = { length: 50, width: 40, height: 30 }; // 60000 cm³ → 12 kg at 5000
+
+  it("should price by billable weight (greater of actual and volumetric)", () => {
+    const method = {
+      id: "courier",
+      enabled: true,
+      name: "Courier",
+      pricing: { type: "dimensional", ratePerUnit: 2, minCharge: 5 },
+    };
+
+    const light = calculateShippingMethod(method, {
+      orderValue: 50,
+      itemCount: 1,
+      country: "US",
+      weight: 3,
+      dimensions: parcel,
+    });
+    expect(light.price).toBe(24);
+
+    const heavy = calculateShippingMethod(method, {
+      orderValue: 50,
+      itemCount: 1,
+      country: "US",
+      weight: 20,
+      dimensions: parcel,
+    });
+    expect(heavy.price).toBe(40);
+
+    const tiny = calculateShippingMethod(method, { orderValue: 50, itemCount: 1, country: "US", weight: 1 });
+    expect(tiny.price).toBe(5);
+  });
+
+  it("should compute volumetric weight from line items with a custom divisor", () => {
+    const method = {
+      id: "courier.us",
+      enabled: true,
+      name: "US Courier",
+      pricing: { type: "dimensional", ratePerUnit: 1, divisor: 139, basis: "volumetric" },
+    };
+
+    const result = calculateShippingMethod(method, {
+      orderValue: 50,
+      itemCount: 2,
+      country: "US",
+      items: [{ sku: "BOX", quantity: 2, dimensions: { length: 10, width: 10, height: 13.9 } }],
+    });
+    expect(result.price).toBeCloseTo(20, 10);
+  });
+
+  it("should evaluate weight ranges on the configured basis", () => {
+    const config = {
+      version: "1.0",
+      methods: [
+        {
+          id: "small_parcel",
+          enabled: true,
+          name: "Small Parcel",
+          conditions: { order: { weight: { max: 10, basis: "billable" } } },
+          pricing: { type: "flat", amount: 6 },
+        },
+        {
+          id: "small_parcel_actual",
+          enabled: true,
+          name: "Small Parcel (actual)",
+          conditions: { order: { weight: { max: 10 } } },
+          pricing: { type: "flat", amount: 6 },
+        },
+      ],
+    } as any;
+
+    const ids = getShippingMethodsForDisplay(config, {
+      orderValue: 50,
+      itemCount: 1,
+      country: "US",
+      weight: 3,
+      dimensions: parcel,
+    }).map((m) => m.id);
+
+    expect(ids).toEqual(["small_parcel_actual"]);
+  });
+
+  it("should derive actual weight from line items when context.weight is missing", () => {
+    const config = {
+      version: "1.0",
+      methods: [
+        {
+          id: "heavy",
+          enabled: true,
+          name: "Heavy Goods",
+          conditions: { order: { weight: { min: 10 } } },
+          pricing: { type: "flat", amount: 50 },
+        },
+      ],
+    } as any;
+
+    const result = getShippingMethodsForDisplay(config, {
+      orderValue: 50,
+      itemCount: 3,
+      country: "US",
+      items: [
+        { sku: "A", quantity: 2, weight: 4 },
+        { sku: "B", quantity: 1, weight: 3 },
+      ],
+    });
+    expect(result).toHaveLength(1);
+  });
+
+  it("should validate dimensional pricing and weight basis", () => {
+    const config = {
+      version: "1.0",
+      methods: [
+        {
+          id: "courier",
+          enabled: true,
+          name: "Courier",
+          conditions: { order: { weight: { max: 30, basis: "billable", divisor: 6000 } } },
+          pricing: { type: "dimensional", ratePerUnit: 2, divisor: 6000 },
+        },
+      ],
+    };
+    expect(() => validateShippingConfig(config)).not.toThrow();
+
+    const badDivisor = {
+      ...config,
+      methods: [{ ...config.methods[0], pricing: { type: "dimensional", ratePerUnit: 2, divisor: 0 } }],
+    };
+    expect(() => validateShippingConfig(badDivisor)).toThrow(/Invalid shipping configuration/);
+  });
+});
+
+describe("Rate table pricing", () => {
+  const rateCard = {
+    id: "parcel",
+    enabled: true,
+    name: "Parcel",
+    pricing: {
+      type: "rate_table",
+      key: "weight",
+      rounding: { increment: 0.5, mode: "up" },
+      brackets: [
+        { upTo: 0.5, price: 4 },
+        { upTo: 1, price: 5.5 },
+        { upTo: 2, price: 7 },
+        { upTo: 5, price: 11 },
+      ],
+      overflow: { every: 1, price: 2.25 },
+    },
+  };
+
+  const priceFor = (weight: number) =>
+    calculateShippingMethod(rateCard, { orderValue: 10, itemCount: 1, country: "US", weight }).price;
+
+  it("should pick the first bracket covering the rounded weight", () => {
+    expect(priceFor(0.3)).toBe(4);
+    expect(priceFor(0.5)).toBe(4);
+    expect(priceFor(0.51)).toBe(5.5);
+    expect(priceFor(1.2)).toBe(7);
+    expect(priceFor(5)).toBe(11);
+  });
+
+  it("should add the overflow increment beyond the last bracket", () => {
+    expect(priceFor(5.1)).toBe(13.25); // rounds to 5.5 → one extra started kg
+    expect(priceFor(6)).toBe(13.25);
+    expect(priceFor(7.2)).toBe(17.75); // rounds to 7.5 → three extra started kg
+  });
+
+  it("should hide the method beyond the last bracket without overflow", () => {
+    const config = {
+      version: "1.0",
+      methods: [
+        {
+          id: "small",
+          enabled: true,
+          name: "Small Items",
+          pricing: {
+            type: "rate_table",
+            key: "items",
+            brackets: [
+              { upTo: 1, price: 3 },
+              { upTo: 3, price: 5 },
+            ],
+          },
+        },
+      ],
+    } as any;
+
+    expect(getShippingMethodsForDisplay(config, { orderValue: 10, itemCount: 3, country: "US" })[0].price).toBe(5);
+    expect(getShippingMethodsForDisplay(config, { orderValue: 10, itemCount: 4, country: "US" })).toHaveLength(0);
+  });
+
+  it("should key by order value", () => {
+    const method = {
+      id: "value_card",
+      enabled: true,
+      name: "Value Card",
+      pricing: {
+        type: "rate_table",
+        key: "value",
+        brackets: [
+          { upTo: 49.99, price: 6 },
+          { upTo: 99.99, price: 3 },
+          { upTo: 1000000, price: 0 },
+        ],
+      },
+    };
+
+    expect(calculateShippingMethod(method, { orderValue: 25, itemCount: 1, country: "US" }).price).toBe(6);
+    expect(calculateShippingMethod(method, { orderValue: 150, itemCount: 1, country: "US" }).price).toBe(0);
+  });
+
+  it("should validate rate tables and reject unsorted brackets", () => {
+    const config = { version: "1.0", methods: [rateCard] };
+    expect(() => validateShippingConfig(config)).not.toThrow();
+
+    const unsorted = {
+      version: "1.0",
+      methods: [
+        {
+          ...rateCard,
+          pricing: {
+            ...rateCard.pricing,
+            brackets: [
+              { upTo: 2, price: 7 },
+              { upTo: 1, price: 5.5 },
+            ],
+          },
+        },
+      ],
+    };
+    expect(() => validateShippingConfig(unsorted)).toThrow(/ascending upTo/);
+  });
+});
+
+describe("Zone × weight matrix pricing", () => {
+  const matrixConfig = {
+    version: "1.0",
+    zones: [
+      { id: "domestic", areas: [{ country: "US" }] },
+      { id: "north_america", areas: [{ country: "CA" }, { country: "MX" }] },
+      { id: "eu", areas: [{ country: "DE" }, { country: "FR" }] },
+    ],
+    methods: [
+      {
+        id: "intl.parcel",
+        enabled: true,
+        name: "International Parcel",
+        pricing: {
+          type: "matrix",
+          rounding: { increment: 0.5 },
+          brackets: [
+            { min: 0, max: 1 },
+            { min: 1, max: 5 },
+            { min: 5, max: 20 },
+          ],
+          rows: [
+            { zone: "domestic", prices: [5, 9, 18] },
+            { zone: "north_america", prices: [12, 20, 45] },
+            { zone: "eu", prices: [18, 30, null] },
+          ],
+        },
+      },
+    ],
+  } as any;
+
+  const display = (country: string, weight: number) =>
+    getShippingMethodsForDisplay(matrixConfig, { orderValue: 10, itemCount: 1, country, weight });
+
+  it("should resolve the cell for destination zone and weight", () => {
+    expect(display("US", 0.4)[0].price).toBe(5);
+    expect(display("CA", 3)[0].price).toBe(20);
+    expect(display("MX", 12)[0].price).toBe(45);
+    expect(display("FR", 0.8)[0].price).toBe(18);
+  });
+
+  it("should assign shared boundaries to the lower bracket", () => {
+    expect(display("US", 1)[0].price).toBe(5);
+    expect(display("US", 1.1)[0].price).toBe(9); // rounds up to 1.5
+  });
+
+  it("should hide the method for unserved cells, zones and weights", () => {
+    expect(display("DE", 8)).toHaveLength(0);
+    expect(display("JP", 1)).toHaveLength(0);
+    expect(display("US", 25)).toHaveLength(0);
+  });
+
+  it("should validate matrices and report gaps, overlaps and mismatched rows", () => {
+    expect(() => validateShippingConfig(matrixConfig)).not.toThrow();
+
+    const withBrackets = (brackets: any[], rows?: any[]) => ({
+      ...matrixConfig,
+      methods: [
+        {
+          ...matrixConfig.methods[0],
+          pricing: { ...matrixConfig.methods[0].pricing, brackets, rows: rows ?? [{ zone: "domestic", prices: [1, 2] }] },
+        },
+      ],
+    });
+
+    expect(() =>
+      validateShippingConfig(withBrackets([{ min: 0, max: 1 }, { min: 2, max: 5 }]))
+    ).toThrow(/gap between 1 and 2/);
+    expect(() =>
+      validateShippingConfig(withBrackets([{ min: 0, max: 2 }, { min: 1, max: 5 }]))
+    ).toThrow(/overlapping brackets/);
+    expect(() =>
+      validateShippingConfig(withBrackets([{ min: 0, max: 1 }, { min: 1, max: 5 }], [{ zone: "domestic", prices: [1] }]))
+    ).toThrow(/has 1 prices for 2 brackets/);
+    expect(() =>
+      validateShippingConfig(withBrackets([{ min: 0, max: 1 }, { min: 1, max: 5 }], [{ zone: "mars", prices: [1, 2] }]))
+    ).toThrow(/unknown zone "mars"/);
+  });
+});
+
+describe("Surcharges and adjustments", () => {
+  const surchargeConfig = {
+    version: "1.0",
+    zones: [{ id: "us_remote", areas: [{ country: "US", region: ["US-AK", "US-HI"] }] }],
+    methods: [
+      {
+        id: "ground",
+        enabled: true,
+        name: "Ground",
+        pricing: { type: "item_based", firstItemPrice: 6, additionalItemPrice: 2 },
+        adjustments: [
+          { id: "fuel", label: { en: "Fuel surcharge", vi: "Phụ phí nhiên liệu" }, type: "percentage_of_shipping", amount: 5 },
+          {
+            id: "remote_area",
+            label: "Remote area surcharge",
+            type: "fixed",
+            amount: 5,
+            conditions: { geo: { zone: { include: ["us_remote"] } } },
+          },
+          { id: "handling", label: "Handling", type: "per_item", amount: 0.5 },
+          {
+            id: "big_order",
+            label: "Big order discount",
+            type: "percentage_of_order",
+            amount: -2,
+            conditions: { order: { value: { min: 200 } } },
+          },
+        ],
+      },
+    ],
+  } as any;
+
+  it("should add surcharges on top of the base price with a breakdown", () => {
+    const [result] = getShippingMethodsForDisplay(surchargeConfig, {
+      orderValue: 50,
+      itemCount: 3,
+      country: "US",
+      region: "US-AK",
+      locale: "vi",
+    });
+
+    expect(result.price).toBeCloseTo(17, 10); // 10 base + 0.5 fuel + 5 remote + 1.5 handling
+    expect(result.breakdown).toEqual([
+      { type: "base", quantity: 1, unitAmount: 6, amount: 6 },
+      { type: "per_item", quantity: 2, unitAmount: 2, amount: 4 },
+      { type: "surcharge", id: "fuel", label: "Phụ phí nhiên liệu", amount: 0.5 },
+      { type: "surcharge", id: "remote_area", label: "Remote area surcharge", amount: 5 },
+      { type: "surcharge", id: "handling", label: "Handling", quantity: 3, unitAmount: 0.5, amount: 1.5 },
+    ]);
+  });
+
+  it("should skip adjustments whose conditions are not met and report discounts", () => {
+    const [result] = getShippingMethodsForDisplay(surchargeConfig, {
+      orderValue: 250,
+      itemCount: 1,
+      country: "US",
+      region: "US-TX",
+    });
+
+    expect(result.price).toBeCloseTo(1.8, 10); // 6 + 0.3 fuel + 0.5 handling - 5 discount
+    expect(result.breakdown?.map((line) => line.type)).toEqual(["base", "surcharge", "surcharge", "discount"]);
+    expect(result.breakdown?.[3]).toMatchObject({ id: "big_order", label: "Big order discount", amount: -5 });
+  });
+
+  it("should never go below zero", () => {
+    const method = {
+      id: "promo",
+      enabled: true,
+      name: "Promo",
+      pricing: { type: "flat", amount: 3 },
+      adjustments: [{ id: "credit", type: "fixed", amount: -10 }],
+    };
+
+    expect(calculateShippingMethod(method, { orderValue: 10, itemCount: 1, country: "US" }).price).toBe(0);
+  });
+
+  it("should apply adjustments to tiered prices and label the base with the tier", () => {
+    const method = {
+      id: "standard",
+      enabled: true,
+      name: "Standard",
+      pricing: {
+        type: "tiered",
+        rules: [{ id: "tier_paid", label: "Standard Shipping", criteria: {}, price: 4 }],
+      },
+      adjustments: [{ id: "handling", type: "fixed", amount: 1 }],
+    };
+
+    const result = calculateShippingMethod(method, { orderValue: 10, itemCount: 1, country: "US" });
+    expect(result.price).toBe(5);
+    expect(result.breakdown?.[0]).toEqual({ type: "base", id: "tier_paid", label: "Standard Shipping", amount: 4 });
+  });
+
+  it("should top up to zero with a minimum_charge line when discounts exceed the price", () => {
+    const method = {
+      id: "promo",
+      enabled: true,
+      name: "Promo",
+      pricing: { type: "flat", amount: 3 },
+      adjustments: [{ id: "credit", type: "fixed", amount: -10 }],
+    };
+
+    const result = calculateShippingMethod(method, { orderValue: 10, itemCount: 1, country: "US" });
+    expect(result.breakdown).toEqual([
+      { type: "base", amount: 3 },
+      { type: "discount", id: "credit", amount: -10 },
+      { type: "minimum_charge", amount: 7 },
+    ]);
+  });
+
+  it("should validate adjustments", () => {
+    expect(() => validateShippingConfig(surchargeConfig)).not.toThrow();
+
+    const badType = {
+      ...surchargeConfig,
+      methods: [{ ...surchargeConfig.methods[0], adjustments: [{ id: "x", type: "percent", amount: 1 }] }],
+    };
+    expect(() => validateShippingConfig(badType)).toThrow(/Invalid shipping configuration/);
+  });
+});
+
+describe("Price breakdown for every pricing type", () => {
+  const context: EvaluationContext = { orderValue: 80, itemCount: 3, country: "US", weight: 2, locale: "en" };
+  const sum = (lines: { amount: number }[] = []) => lines.reduce((total, line) => total + line.amount, 0);
+
+  it.each([
+    ["flat", { type: "flat", amount: 5 }],
+    ["item_based", { type: "item_based", firstItemPrice: 5, additionalItemPrice: 1.5 }],
+    ["value_based", { type: "value_based", percentage: 10, minAmount: 12 }],
+    ["dimensional", { type: "dimensional", ratePerUnit: 2, minCharge: 6 }],
+    [
+      "rate_table",
+      { type: "rate_table", key: "weight", brackets: [{ upTo: 1, price: 4 }], overflow: { every: 0.5, price: 1 } },
+    ],
+  ])("should produce a breakdown that sums to the price (%s)", (_type, pricing) => {
+    const result = calculateShippingMethod({ id: "m", enabled: true, name: "M", pricing }, context);
+
+    expect(result.breakdown).toBeDefined();
+    expect(sum(result.breakdown)).toBeCloseTo(result.price, 10);
+  });
+
+  it("should itemise additional items, minimum charges and overflow units", () => {
+    const items = calculateShippingMethod(
+      { id: "m", enabled: true, name: "M", pricing: { type: "item_based", firstItemPrice: 5, additionalItemPrice: 1.5 } },
+      context
+    );
+    expect(items.breakdown).toEqual([
+      { type: "base", quantity: 1, unitAmount: 5, amount: 5 },
+      { type: "per_item", quantity: 2, unitAmount: 1.5, amount: 3 },
+    ]);
+
+    const minimum = calculateShippingMethod(
+      { id: "m", enabled: true, name: "M", pricing: { type: "value_based", percentage: 10, minAmount: 12 } },
+      context
+    );
+    expect(minimum.breakdown).toEqual([
+      { type: "base", amount: 8 },
+      { type: "minimum_charge", amount: 4 },
+    ]);
+
+    const overflow = calculateShippingMethod(
+      {
+        id: "m",
+        enabled: true,
+        name: "M",
+        pricing: { type: "rate_table", key: "weight", brackets: [{ upTo: 1, price: 4 }], overflow: { every: 0.5, price: 1 } },
+      },
+      context
+    );
+    expect(overflow.breakdown).toEqual([
+      { type: "base", amount: 4 },
+      { type: "per_item", quantity: 2, unitAmount: 1, amount: 2 },
+    ]);
+  });
+
+  it("should label the base line with the matched tier", () => {
+    const result = calculateShippingMethod(
+      {
+        id: "standard",
+        enabled: true,
+        name: "Standard",
+        pricing: { type: "tiered", rules: [{ id: "tier_paid", label: "Standard Shipping", criteria: {}, price: 4.97 }] },
+      },
+      context
+    );
+    expect(result.breakdown).toEqual([{ type: "base", id: "tier_paid", label: "Standard Shipping", amount: 4.97 }]);
+  });
+
+  it("should use plugin breakdowns and fall back to a base line for plain prices", () => {
+    registerPricingPlugin("breakdown_test", () => ({
+      price: 9,
+      breakdown: [
+        { type: "base", id: "pickup", amount: 4 },
+        { type: "tax", id: "vat", amount: 5 },
+      ],
+    }));
+    registerPricingPlugin("plain_test", () => 7);
+
+    const withBreakdown = calculateShippingMethod(
+      { id: "m", enabled: true, name: "M", pricing: { type: "custom", plugin: "breakdown_test", config: {} } },
+      context
+    );
+    expect(withBreakdown.price).toBe(9);
+    expect(withBreakdown.breakdown?.map((line) => line.type)).toEqual(["base", "tax"]);
+
+    const plain = calculateShippingMethod(
+      { id: "m", enabled: true, name: "M", pricing: { type: "custom", plugin: "plain_test", config: {} } },
+      context
+    );
+    expect(plain.breakdown).toEqual([{ type: "base", id: "plain_test", amount: 7 }]);
+  });
+
+  it("should report tax adjustments as tax lines", () => {
+    const result = calculateShippingMethod(
+      {
+        id: "m",
+        enabled: true,
+        name: "M",
+        pricing: { type: "flat", amount: 10 },
+        adjustments: [{ id: "vat", label: "VAT", type: "percentage_of_shipping", amount: 20, category: "tax" }],
+      },
+      context
+    );
+    expect(result.price).toBe(12);
+    expect(result.breakdown?.[1]).toEqual({ type: "tax", id: "vat", label: "VAT", amount: 2 });
+  });
+});
+
+describe("Currency-aware money handling and rounding", () => {
+  const valueMethod = (percentage: number): ShippingMethod => ({
+    id: "value",
+    enabled: true,
+    name: "Value",
+    pricing: { type: "value_based", percentage },
+  });
+
+  const priceFor = (config: Omit<ShippingConfig, "version">, context: EvaluationContext) =>
+    getShippingMethodsForDisplay({ version: "1.0", ...config }, context)[0];
+
+  const context: EvaluationContext = { orderValue: 74.99999, itemCount: 1, country: "US" };
+
+  it("should round prices to the currency minor unit", () => {
+    expect(priceFor({ methods: [valueMethod(10)] }, context).price).toBe(7.5);
+    expect(priceFor({ currency: "JPY", methods: [valueMethod(10)] }, { ...context, orderValue: 12345 }).price).toBe(1235);
+    expect(priceFor({ currency: "KWD", methods: [valueMethod(10)] }, { ...context, orderValue: 12.3456 }).price).toBe(1.235);
+  });
+
+  it("should sum breakdown lines in minor units", () => {
+    const result = priceFor(
+      {
+        methods: [
+          {
+            id: "flat",
+            enabled: true,
+            name: "Flat",
+            pricing: { type: "flat", amount: 0.1 },
+            adjustments: [{ id: "fee", type: "fixed", amount: 0.2 }],
+          },
+        ],
+      },
+      context
+    );
+    expect(result.price).toBe(0.3);
+    expect(result.breakdown?.map((line) => line.amount)).toEqual([0.1, 0.2]);
+  });
+
+  it("should support half-even rounding", () => {
+    const config = { rounding: { mode: "half_even" as const }, methods: [valueMethod(10)] };
+    expect(priceFor(config, { ...context, orderValue: 0.125 * 10 }).price).toBe(0.12);
+    expect(priceFor(config, { ...context, orderValue: 0.135 * 10 }).price).toBe(0.14);
+  });
+
+  it("should round to an increment and report the difference", () => {
+    const result = priceFor(
+      { rounding: { increment: 0.05 }, methods: [valueMethod(10)] },
+      { ...context, orderValue: 72.3 }
+    );
+    expect(result.price).toBe(7.25);
+    expect(result.breakdown).toEqual([
+      { type: "base", amount: 7.23 },
+      { type: "rounding", amount: 0.02 },
+    ]);
+  });
+
+  it("should raise prices to a price ending and keep free shipping free", () => {
+    const config = { rounding: { ending: 0.99 }, methods: [valueMethod(10)] };
+    expect(priceFor(config, { ...context, orderValue: 72 }).price).toBe(7.99);
+    expect(priceFor(config, { ...context, orderValue: 79.9 }).price).toBe(7.99);
+    expect(priceFor(config, { ...context, orderValue: 80 }).price).toBe(8.99);
+    expect(priceFor(config, { ...context, orderValue: 0 }).price).toBe(0);
+  });
+
+  it("should keep price endings finer than the minor unit off zero-decimal currencies", () => {
+    const config = { currency: "JPY", rounding: { ending: 0.99 }, methods: [valueMethod(10)] };
+    expect(() => validateShippingConfig({ version: "1.0", ...config })).toThrow(
+      "price ending 0.99 is finer than the JPY minor unit"
+    );
+    expect(priceFor(config, { ...context, orderValue: 5000 }).price).toBe(500);
+    expect(() =>
+      validateShippingConfig({ version: "1.0", ...config, rounding: { ending: 0 } })
+    ).not.toThrow();
+  });
+
+  it("should let a method override the config rounding", () => {
+    const result = priceFor(
+      {
+        rounding: { ending: 0.99 },
+        methods: [{ ...valueMethod(10), rounding: { mode: "up", increment: 0.5 } }],
+      },
+      { ...context, orderValue: 72 }
+    );
+    expect(result.price).toBe(7.5);
+  });
+
+  it("should format remaining amounts with the currency decimals", () => {
+    const method: ShippingMethod = {
+      id: "free",
+      enabled: true,
+      name: "Free",
+      conditions: { order: { value: { min: 5000 } } },
+      pricing: { type: "flat", amount: 0 },
+      availability: { mode: "show_hint", when: ["order.value.min"], message: "Add ${remaining} more" },
+    };
+
+    const yen = priceFor({ currency: "JPY", methods: [method] }, { ...context, orderValue: 2500 });
+    expect(yen.message).toBe("Add 2500 more");
+
+    const usd = priceFor({ currency: "USD", methods: [method] }, { ...context, orderValue: 4975.004 });
+    expect(usd.message).toBe("Add 25.00 more");
+  });
+});
+
+describe("Multi-currency configs", () => {
+  const multiCurrencyConfig: ShippingConfig = {
+    version: "1.0",
+    currency: "USD",
+    methods: [
+      {
+        id: "standard",
+        enabled: true,
+        name: "Standard",
+        pricing: {
+          type: "tiered",
+          rules: [
+            {
+              id: "tier_free",
+              criteria: { order: { value: { min: { USD: 100, EUR: 90 } } } },
+              price: 0,
+              availability: {
+                mode: "show_hint",
+                when: ["order.value.min"],
+                message: "Add ${remaining} more",
+                showProgress: true,
+              },
+            },
+            { id: "tier_paid", criteria: {}, price: { USD: 4.99, EUR: 4.5 } },
+          ],
+        },
+      },
+      {
+        id: "express",
+        enabled: true,
+        name: "Express",
+        pricing: { type: "item_based", firstItemPrice: 12.5, additionalItemPrice: 2 },
+      },
+    ],
+  };
+
+  const rates: Record<string, number> = { "USD:GBP": 0.8, "USD:JPY": 150.123 };
+  const exchangeRates = (from: string, to: string) => rates[`${from}:${to}`];
+
+  const baseContext: EvaluationContext = { orderValue: 50, itemCount: 2, country: "DE" };
+
+  it("should use per-currency prices and thresholds", () => {
+    const paid = getShippingMethodsForDisplay(
+      multiCurrencyConfig,
+      { ...baseContext, currency: "EUR" },
+      { exchangeRates: () => 1.1 }
+    );
+    const standard = paid.find((m) => m.methodId === "standard");
+    expect(standard?.tierId).toBe("tier_paid");
+    expect(standard?.price).toBe(4.5);
+    expect(standard?.currency).toBe("EUR");
+
+    const free = getShippingMethodsForDisplay(
+      multiCurrencyConfig,
+      { ...baseContext, orderValue: 95, currency: "eur" },
+      { exchangeRates: () => 1.1 }
+    );
+    expect(free.find((m) => m.methodId === "standard")?.tierId).toBe("tier_free");
+  });
+
+  it("should convert amounts without a per-currency override", () => {
+    const methods = getShippingMethodsForDisplay(
+      multiCurrencyConfig,
+      { ...baseContext, currency: "GBP" },
+      { exchangeRates }
+    );
+    const express = methods.find((m) => m.methodId === "express");
+    expect(express?.currency).toBe("GBP");
+    expect(express?.price).toBe(11.6);
+    expect(express?.breakdown).toEqual([
+      { type: "base", quantity: 1, unitAmount: 10, amount: 10 },
+      { type: "per_item", quantity: 1, unitAmount: 1.6, amount: 1.6 },
+    ]);
+  });
+
+  it("should round converted prices in the target currency", () => {
+    const methods = getShippingMethodsForDisplay(
+      multiCurrencyConfig,
+      { ...baseContext, orderValue: 5000, currency: "JPY" },
+      { exchangeRates }
+    );
+    expect(methods.find((m) => m.methodId === "standard")?.price).toBe(749);
+    expect(methods.find((m) => m.methodId === "express")?.price).toBe(2177);
+  });
+
+  it("should report thresholds in the shopper currency", () => {
+    const standard = getShippingMethodsForDisplay(
+      multiCurrencyConfig,
+      { ...baseContext, orderValue: 60, currency: "GBP" },
+      { exchangeRates }
+    ).find((m) => m.methodId === "standard");
+
+    expect(standard?.upgradeMessage).toBe("Add 20.00 more");
+    expect(standard?.progress).toEqual({ current: 60, required: 80, remaining: 20, percentage: 75 });
+  });
+
+  it("should give custom plugins the order in the config currency", () => {
+    registerPricingPlugin("value_share_test", (_config, context) => context.orderValue * 0.1);
+    const config: ShippingConfig = {
+      version: "1.0",
+      currency: "USD",
+      methods: [
+        {
+          id: "plugin",
+          enabled: true,
+          name: "Plugin",
+          pricing: { type: "custom", plugin: "value_share_test", config: {} },
+        },
+        {
+          id: "value",
+          enabled: true,
+          name: "Value",
+          pricing: { type: "value_based", percentage: 10 },
+        },
+      ],
+    };
+
+    const methods = getShippingMethodsForDisplay(
+      config,
+      { ...baseContext, orderValue: 15000, currency: "JPY" },
+      { exchangeRates: () => 150 }
+    );
+    expect(methods.map((m) => [m.id, m.price])).toEqual([
+      ["plugin", 1500],
+      ["value", 1500],
+    ]);
+  });
+
+  it("should leave out methods that need a missing exchange rate", () => {
+    const config: ShippingConfig = {
+      ...multiCurrencyConfig,
+      methods: [
+        ...multiCurrencyConfig.methods,
+        {
+          id: "swiss_post",
+          enabled: true,
+          name: "Swiss Post",
+          pricing: { type: "flat", amount: { USD: 9, CHF: 8 } },
+        },
+      ],
+    };
+
+    const methods = getShippingMethodsForDisplay(config, { ...baseContext, currency: "CHF" }, { exchangeRates });
+    expect(methods.map((m) => m.id)).toEqual(["swiss_post"]);
+    expect(methods[0]).toMatchObject({ price: 8, currency: "CHF" });
+  });
+
+  it("should not label amounts of a config without currency with the context currency", () => {
+    const config: ShippingConfig = {
+      version: "1.0",
+      methods: [{ id: "flat", enabled: true, name: "Flat", pricing: { type: "flat", amount: 5 } }],
+    };
+
+    const [method] = getShippingMethodsForDisplay(config, { ...baseContext, currency: "EUR" });
+    expect(method.price).toBe(5);
+    expect(method.currency).toBeUndefined();
+  });
+
+  it("should require the config currency in per-currency amounts", () => {
+    const config = {
+      version: "1.0",
+      currency: "USD",
+      methods: [{ id: "m", enabled: true, name: "M", pricing: { type: "flat", amount: { EUR: 5 } } }],
+    };
+    expect(() => validateShippingConfig(config)).toThrow("must include the config currency");
+    expect(() => validateShippingConfig(multiCurrencyConfig)).not.toThrow();
+  });
+});
+
+describe("Delivery date estimation", () => {
+  const deliveryConfig: ShippingConfig = {
+    version: "1.0",
+    delivery: {
+      timezone: "America/New_York",
+      cutoffTime: "14:00",
+      holidays: ["2024-12-25"],
+    },
+    methods: [
+      {
+        id: "express",
+        enabled: true,
+        name: "Express",
+        pricing: { type: "flat", amount: 9.99 },
+        estimatedDays: { min: 2, max: 4 },
+      },
+      {
+        id: "standard",
+        enabled: true,
+        name: "Standard",
+        pricing: {
+          type: "tiered",
+          rules: [{ id: "tier_all", criteria: {}, price: 4.99, estimatedDays: { min: 5, max: 7 } }],
+        },
+      },
+    ],
+  };
+
+  const display = (config: ShippingConfig, orderDate: Date) =>
+    getShippingMethodsForDisplay(config, { orderValue: 50, itemCount: 1, country: "US", orderDate });
+
+  it("should compute delivery dates before the cut-off", () => {
+    // Fri Dec 13, 1pm in New York
+    const express = display(deliveryConfig, new Date("2024-12-13T18:00:00Z")).find((m) => m.id === "express");
+    expect(express?.earliestDate).toBe("2024-12-17");
+    expect(express?.latestDate).toBe("2024-12-19");
+  });
+
+  it("should ship the next working day after the cut-off", () => {
+    // Fri Dec 13, 3pm in New York: ships Mon Dec 16
+    const express = display(deliveryConfig, new Date("2024-12-13T20:00:00Z")).find((m) => m.id === "express");
+    expect(express?.earliestDate).toBe("2024-12-18");
+    expect(express?.latestDate).toBe("2024-12-20");
+  });
+
+  it("should use the warehouse time zone for the order date", () => {
+    // Dec 14 03:00 UTC is still Fri Dec 13, 10pm in New York (after the cut-off)
+    const result = estimateDeliveryDates(
+      { min: 0, max: 1 },
+      new Date("2024-12-14T03:00:00Z"),
+      deliveryConfig.delivery
+    );
+    expect(result).toEqual({
+      shipDate: "2024-12-16",
+      earliestDate: "2024-12-16",
+      latestDate: "2024-12-17",
+    });
+  });
+
+  it("should skip holidays and non-working days", () => {
+    // Mon Dec 23 ships the same day; Dec 25 is a holiday
+    const standard = display(deliveryConfig, new Date("2024-12-23T14:00:00Z")).find(
+      (m) => m.methodId === "standard"
+    );
+    expect(standard?.earliestDate).toBe("2024-12-31");
+    expect(standard?.latestDate).toBe("2025-01-02");
+
+    const saturdays = estimateDeliveryDates({ min: 1, max: 2 }, new Date("2024-12-13T12:00:00Z"), {
+      workingDays: ["mon", "tue", "wed", "thu", "fri", "sat"],
+    });
+    expect(saturdays).toEqual({
+      shipDate: "2024-12-13",
+      earliestDate: "2024-12-14",
+      latestDate: "2024-12-16",
+    });
+  });
+
+  it("should not add dates without a delivery schedule", () => {
+    const config: ShippingConfig = { ...deliveryConfig, delivery: undefined };
+    const express = display(config, new Date("2024-12-13T18:00:00Z")).find((m) => m.id === "express");
+    expect(express?.earliestDate).toBeUndefined();
+    expect(express?.latestDate).toBeUndefined();
+  });
+
+  it("should reject unknown time zones and malformed cut-off times", () => {
+    expect(() => validateShippingConfig(deliveryConfig)).not.toThrow();
+    expect(() =>
+      validateShippingConfig({ ...deliveryConfig, delivery: { timezone: "Mars/Olympus" } })
+    ).toThrow('unknown time zone "Mars/Olympus"');
+    expect(() => validateShippingConfig({ ...deliveryConfig, delivery: { cutoffTime: "2pm" } })).toThrow();
+  });
+});
+
+describe("Holiday and blackout calendars", () => {
+  const calendarConfig: ShippingConfig = {
+    version: "1.0",
+    calendars: [
+      { id: "us_holidays", dates: ["12-25", "01-01", "2024-11-28"] },
+      { id: "peak_blackout", dates: [{ from: "12-23", to: "01-02" }] },
+      { id: "inventory", dates: [{ from: "2024-12-02", to: "2024-12-03" }] },
+    ],
+    delivery: { calendars: ["us_holidays", "inventory"] },
+    methods: [
+      {
+        id: "express",
+        enabled: true,
+        name: "Express",
+        conditions: { date: { notIn: ["us_holidays", "peak_blackout"] } },
+        pricing: { type: "flat", amount: 19.99 },
+        estimatedDays: { min: 1, max: 2 },
+      },
+      {
+        id: "standard",
+        enabled: true,
+        name: "Standard",
+        conditions: { date: { notIn: "us_holidays" } },
+        pricing: { type: "flat", amount: 4.99 },
+        estimatedDays: { min: 3, max: 5 },
+      },
+    ],
+  };
+
+  const ids = (orderDate: Date) =>
+    getShippingMethodsForDisplay(calendarConfig, {
+      orderValue: 50,
+      itemCount: 1,
+      country: "US",
+      orderDate,
+    }).map((m) => m.id);
+
+  it("should hide methods on fixed and annual calendar dates", () => {
+    expect(ids(new Date("2024-11-28T12:00:00Z"))).toEqual([]);
+    expect(ids(new Date("2031-12-25T12:00:00Z"))).toEqual([]);
+    expect(ids(new Date("2025-11-28T12:00:00Z"))).toEqual(["standard", "express"]);
+  });
+
+  it("should apply annual ranges that wrap the new year", () => {
+    expect(ids(new Date("2026-12-22T12:00:00Z"))).toEqual(["standard", "express"]);
+    expect(ids(new Date("2026-12-23T12:00:00Z"))).toEqual(["standard"]);
+    expect(ids(new Date("2027-01-02T12:00:00Z"))).toEqual(["standard"]);
+    expect(ids(new Date("2027-01-03T12:00:00Z"))).toEqual(["standard", "express"]);
+  });
+
+  it("should skip delivery calendar dates when counting working days", () => {
+    // Fri Nov 29 ships the same day; Mon Dec 2 and Tue Dec 3 are closed for inventory
+    const standard = getShippingMethodsForDisplay(calendarConfig, {
+      orderValue: 50,
+      itemCount: 1,
+      country: "US",
+      orderDate: new Date("2024-11-29T12:00:00Z"),
+    }).find((m) => m.id === "standard");
+    expect(standard?.earliestDate).toBe("2024-12-06");
+    expect(standard?.latestDate).toBe("2024-12-10");
+
+    const estimate = estimateDeliveryDates(
+      { min: 1, max: 1 },
+      new Date("2024-12-24T12:00:00Z"),
+      { calendars: ["us_holidays"] },
+      calendarConfig.calendars
+    );
+    expect(estimate.earliestDate).toBe("2024-12-26");
+  });
+
+  it("should leave delivery dates out when closures cover the whole year", () => {
+    const closedConfig: ShippingConfig = {
+      version: "1.0",
+      calendars: [{ id: "closed", dates: [{ from: "01-01", to: "12-31" }] }],
+      delivery: { calendars: ["closed"] },
+      methods: [
+        {
+          id: "standard",
+          enabled: true,
+          name: "Standard",
+          pricing: { type: "flat", amount: 4.99 },
+          estimatedDays: { min: 3, max: 5 },
+        },
+      ],
+    };
+    expect(() => validateShippingConfig(closedConfig)).not.toThrow();
+
+    const standard = getShippingMethodsForDisplay(closedConfig, {
+      orderValue: 50,
+      itemCount: 1,
+      country: "US",
+      orderDate: new Date("2024-11-29T12:00:00Z"),
+    }).find((m) => m.id === "standard");
+    expect(standard?.available).toBe(true);
+    expect(standard?.earliestDate).toBeUndefined();
+    expect(standard?.latestDate).toBeUndefined();
+
+    expect(() =>
+      estimateDeliveryDates(
+        { min: 1, max: 2 },
+        new Date("2024-11-29T12:00:00Z"),
+        closedConfig.delivery,
+        closedConfig.calendars
+      )
+    ).toThrow(NoWorkingDayError);
+  });
+
+  it("should validate calendar references and ranges", () => {
+    expect(() => validateShippingConfig(calendarConfig)).not.toThrow();
+
+    const unknown = {
+      ...calendarConfig,
+      methods: [{ ...calendarConfig.methods[0], conditions: { date: { notIn: "eu_holidays" } } }],
+    };
+    expect(() => validateShippingConfig(unknown)).toThrow('unknown calendar "eu_holidays"');
+
+    const mixedRange = {
+      ...calendarConfig,
+      calendars: [{ id: "us_holidays", dates: [{ from: "2024-12-23", to: "01-02" }] }],
+    };
+    expect(() => validateShippingConfig(mixedRange)).toThrow("invalid date range");
+
+    expect(() =>
+      validateShippingConfig({ ...calendarConfig, calendars: [{ id: "x", dates: ["Dec 25"] }] })
+    ).toThrow();
+  });
+});
+
+describe("Recurring schedule conditions", () => {
+  const scheduleConfig: ShippingConfig = {
+    version: "1.0",
+    methods: [
+      {
+        id: "same_day",
+        enabled: true,
+        name: "Same-day courier",
+        conditions: {
+          schedule: {
+            days: ["mon", "tue", "wed", "thu", "fri"],
+            windows: [{ from: "00:00", to: "14:00" }],
+            timezone: "America/New_York",
+          },
+        },
+        pricing: { type: "flat", amount: 14.99 },
+        display: { countdown: { en: "Order within ${remaining} for same-day delivery" } },
+      },
+      {
+        id: "weekend",
+        enabled: true,
+        name: "Weekend special",
+        pricing: {
+          type: "tiered",
+          rules: [
+            { id: "tier_saturday", criteria: { schedule: { days: ["sat"] } }, price: 1.99 },
+            { id: "tier_default", criteria: {}, price: 5.99 },
+          ],
+        },
+      },
+    ],
+  };
+
+  const display = (orderDate?: Date) =>
+    getShippingMethodsForDisplay(scheduleConfig, {
+      orderValue: 50,
+      itemCount: 1,
+      country: "US",
+      locale: "en",
+      orderDate,
+    });
+
+  it("should match weekdays inside the time window in the schedule time zone", () => {
+    // Wed Dec 11, 11:47 in New York
+    const sameDay = display(new Date("2024-12-11T16:47:00Z")).find((m) => m.id === "same_day");
+    expect(sameDay?.available).toBe(true);
+    expect(sameDay?.countdown).toEqual({
+      endsAt: "2024-12-11T19:00:00.000Z",
+      remainingMinutes: 133,
+      message: "Order within 2h 13m for same-day delivery",
+    });
+  });
+
+  it("should not match after the window or on other days", () => {
+    // Wed Dec 11, 14:00 in New York (window end is exclusive)
+    expect(display(new Date("2024-12-11T19:00:00Z")).some((m) => m.id === "same_day")).toBe(false);
+    // Sat Dec 14, 10:00 in New York
+    expect(display(new Date("2024-12-14T15:00:00Z")).some((m) => m.id === "same_day")).toBe(false);
+  });
+
+  it("should evaluate schedules in tier criteria", () => {
+    const saturday = display(new Date("2024-12-14T12:00:00Z")).find((m) => m.methodId === "weekend");
+    expect(saturday?.tierId).toBe("tier_saturday");
+    expect(saturday?.countdown?.endsAt).toBe("2024-12-15T00:00:00.000Z");
+    expect(saturday?.countdown?.message).toBeUndefined();
+
+    const friday = display(new Date("2024-12-13T12:00:00Z")).find((m) => m.methodId === "weekend");
+    expect(friday?.tierId).toBe("tier_default");
+    expect(friday?.countdown).toBeUndefined();
+  });
+
+  it("should not restrict availability without an order date", () => {
+    const sameDay = display().find((m) => m.id === "same_day");
+    expect(sameDay?.available).toBe(true);
+    expect(sameDay?.countdown).toBeUndefined();
+  });
+
+  it("should reject empty windows and unknown time zones", () => {
+    expect(() => validateShippingConfig(scheduleConfig)).not.toThrow();
+
+    const withSchedule = (schedule: object) => ({
+      ...scheduleConfig,
+      methods: [{ ...scheduleConfig.methods[0], conditions: { schedule } }],
+    });
+    const reversed = withSchedule({ windows: [{ from: "14:00", to: "09:00" }] });
+    expect(() => validateShippingConfig(reversed)).toThrow("empty time window 14:00-09:00");
+
+    const unknownZone = withSchedule({ timezone: "Nowhere/Town" });
+    expect(() => validateShippingConfig(unknownZone)).toThrow('unknown time zone "Nowhere/Town"');
+
+    const malformed = withSchedule({ windows: [{ from: "9:00", to: "24:00" }] });
+    expect(() => validateShippingConfig(malformed)).toThrow();
+  });
+});
+
+describe("Strict mode for missing context", () => {
+  const strictConfig: ShippingConfig = {
+    version: "1.0",
+    methods: [
+      {
+        id: "standard",
+        enabled: true,
+        name: "Standard",
+        pricing: {
+          type: "tiered",
+          rules: [
+            {
+              id: "tier_free",
+              criteria: { order: { value: { min: 50 }, weight: { max: 5 } } },
+              price: 0,
+            },
+            { id: "tier_paid", criteria: {}, price: 6.99 },
+          ],
+        },
+      },
+      {
+        id: "holiday",
+        enabled: true,
+        name: "Holiday Express",
+        conditions: { date: { after: "2024-12-01", before: "2024-12-24" } },
+        pricing: { type: "flat", amount: 4.99 },
+      },
+    ],
+  };
+  const context: EvaluationContext = { orderValue: 75, itemCount: 1, country: "US" };
+
+  it("should treat missing context leniently by default", () => {
+    const methods = getShippingMethodsForDisplay(strictConfig, context);
+    expect(methods.find((m) => m.methodId === "standard")?.tierId).toBe("tier_free");
+    expect(methods.find((m) => m.id === "holiday")?.available).toBe(true);
+  });
+
+  it("should skip tiers and hide methods that need missing context", () => {
+    const methods = getShippingMethodsForDisplay(strictConfig, context, { strict: true });
+    expect(methods.find((m) => m.methodId === "standard")?.tierId).toBe("tier_paid");
+    expect(methods.find((m) => m.id === "holiday")).toBeUndefined();
+
+    const complete = getShippingMethodsForDisplay(
+      strictConfig,
+      { ...context, weight: 2, orderDate: new Date("2024-12-10T12:00:00Z") },
+      { strict: true }
+    );
+    expect(complete.find((m) => m.methodId === "standard")?.tierId).toBe("tier_free");
+    expect(complete.find((m) => m.id === "holiday")?.available).toBe(true);
+  });
+
+  it("should only enforce the fields of a per-field policy", () => {
+    const methods = getShippingMethodsForDisplay(strictConfig, context, { strict: { weight: true } });
+    expect(methods.find((m) => m.methodId === "standard")?.tierId).toBe("tier_paid");
+    expect(methods.find((m) => m.id === "holiday")?.available).toBe(true);
+  });
+});
+
+describe("Structured unavailability reasons", () => {
+  const context: EvaluationContext = { orderValue: 30, itemCount: 1, country: "US", locale: "en" };
+
+  it("should explain hinted methods with the unmet threshold", () => {
+    const result = calculateShippingMethod(testConfig.methods[1], context);
+    expect(result.reasons).toEqual([
+      { code: "ORDER_VALUE_BELOW_MIN", field: "orderValue", required: 50, actual: 30 },
+    ]);
+
+    const available = calculateShippingMethod(testConfig.methods[1], { ...context, orderValue: 60 });
+    expect(available.reasons).toBeUndefined();
+  });
+
+  it("should hide disabled methods", () => {
+    const result = calculateShippingMethod({ ...testConfig.methods[1], enabled: false }, {
+      ...context,
+      orderValue: 60,
+    });
+    expect(result).toBeUndefined();
+  });
+});
+
+describe("Shipping promotions", () => {
+  const promoConfig: ShippingConfig = {
+    version: "1.0",
+    currency: "USD",
+    methods: [
+      {
+        id: "standard",
+        enabled: true,
+        name: "Standard",
+        pricing: {
+          type: "tiered",
+          rules: [
+            { id: "tier_paid", criteria: { order: { value: { max: 49.99 } } }, price: 8 },
+            { id: "tier_free", criteria: { order: { value: { min: 50 } } }, price: 0 },
+          ],
+        },
+      },
+      { id: "express", enabled: true, name: "Express", pricing: { type: "flat", amount: 15 } },
+    ],
+    promotions: [
+      { id: "freeship", type: "free_shipping", couponCodes: ["FREESHIP"], methods: ["standard"] },
+      { id: "vip", label: "VIP discount", type: "percentage", value: 20, segments: ["vip"] },
+      {
+        id: "weekend",
+        type: "fixed",
+        value: 10,
+        date: { after: "2024-11-29", before: "2024-12-02" },
+        methods: ["express"],
+      },
+    ],
+  };
+  const context: EvaluationContext = { orderValue: 30, itemCount: 1, country: "US" };
+  const byId = (methods: DisplayShippingMethod[], id: string) => methods.find((m) => m.methodId === id);
+
+  it("should validate promotions", () => {
+    expect(() => validateShippingConfig(promoConfig)).not.toThrow();
+
+    const withPromotions = (promotions: unknown[]) => ({ ...promoConfig, promotions });
+    expect(() =>
+      validateShippingConfig(withPromotions([{ id: "a", type: "fixed" }]))
+    ).toThrow(/promotion "a" requires a value/);
+    expect(() =>
+      validateShippingConfig(withPromotions([{ id: "a", type: "percentage", value: 120 }]))
+    ).toThrow(/exceeds 100%/);
+    expect(() =>
+      validateShippingConfig(
+        withPromotions([{ id: "a", type: "free_shipping", methods: ["standard:tier_gold"] }])
+      )
+    ).toThrow(/unknown promotion method "standard:tier_gold"/);
+    expect(() =>
+      validateShippingConfig(
+        withPromotions([
+          { id: "a", type: "free_shipping" },
+          { id: "a", type: "free_shipping" },
+        ])
+      )
+    ).toThrow(/duplicate promotion id "a"/);
+  });
+
+  it("should apply nothing without a qualifying coupon, segment or date", () => {
+    const methods = getShippingMethodsForDisplay(promoConfig, context);
+    expect(byId(methods, "standard")?.price).toBe(8);
+    expect(byId(methods, "standard")?.originalPrice).toBeUndefined();
+    expect(byId(methods, "standard")?.appliedPromotions).toBeUndefined();
+  });
+
+  it("should apply coupon promotions to the targeted methods only", () => {
+    const methods = getShippingMethodsForDisplay(promoConfig, {
+      ...context,
+      couponCodes: ["freeship"],
+      orderDate: new Date("2024-11-15T12:00:00Z"),
+    });
+
+    expect(byId(methods, "standard")).toMatchObject({
+      price: 0,
+      originalPrice: 8,
+      appliedPromotions: ["freeship"],
+    });
+    expect(byId(methods, "standard")?.breakdown).toContainEqual({
+      type: "promotion",
+      id: "freeship",
+      amount: -8,
+    });
+    expect(byId(methods, "express")?.price).toBe(15);
+  });
+
+  it("should apply segment promotions and stack them in order", () => {
+    const methods = getShippingMethodsForDisplay(promoConfig, {
+      ...context,
+      customer: { segments: ["vip"] },
+      orderDate: new Date("2024-11-30T12:00:00Z"),
+    });
+
+    expect(byId(methods, "standard")).toMatchObject({ price: 6.4, appliedPromotions: ["vip"] });
+    expect(byId(methods, "express")).toMatchObject({
+      price: 2,
+      originalPrice: 15,
+      appliedPromotions: ["vip", "weekend"],
+    });
+    expect(byId(methods, "express")?.breakdown).toContainEqual({
+      type: "promotion",
+      id: "vip",
+      label: "VIP discount",
+      amount: -3,
+    });
+  });
+
+  it("should not report promotions on free tiers", () => {
+    const methods = getShippingMethodsForDisplay(promoConfig, {
+      ...context,
+      orderValue: 60,
+      couponCodes: ["FREESHIP"],
+    });
+    expect(byId(methods, "standard")).toMatchObject({ price: 0, tierId: "tier_free" });
+    expect(byId(methods, "standard")?.appliedPromotions).toBeUndefined();
+  });
+
+  it("should skip date-bound promotions without an order date in strict mode", () => {
+    const lenient = getShippingMethodsForDisplay(promoConfig, context);
+    expect(byId(lenient, "express")?.appliedPromotions).toEqual(["weekend"]);
+
+    const strict = getShippingMethodsForDisplay(promoConfig, context, { strict: true });
+    expect(byId(strict, "express")?.price).toBe(15);
+  });
+});
+
+describe("Customer conditions", () => {
+  const customerConfig: ShippingConfig = {
+    version: "1.0",
+    methods: [
+      {
+        id: "standard",
+        enabled: true,
+        name: "Standard",
+        pricing: {
+          type: "tiered",
+          rules: [
+            {
+              id: "tier_prime",
+              criteria: { customer: { membership: { include: ["prime"] } } },
+              price: 0,
+            },
+            { id: "tier_first_order", criteria: { customer: { orderCount: { max: 0 } } }, price: 1.99 },
+            { id: "tier_standard", criteria: {}, price: 5.99 },
+          ],
+        },
+      },
+      {
+        id: "freight",
+        enabled: true,
+        name: "Freight",
+        conditions: {
+          customer: { accountType: { include: ["business"] }, segments: { none: ["blocked"] } },
+        },
+        pricing: { type: "flat", amount: 49 },
+      },
+    ],
+  };
+  const context: EvaluationContext = { orderValue: 30, itemCount: 1, country: "US" };
+  const tierOf = (customer: EvaluationContext["customer"]) =>
+    getShippingMethodsForDisplay(customerConfig, { ...context, customer }).find(
+      (m) => m.methodId === "standard"
+    )?.tierId;
+
+  it("should validate customer conditions", () => {
+    expect(() => validateShippingConfig(customerConfig)).not.toThrow();
+
+    const invalid = {
+      ...customerConfig,
+      methods: [
+        {
+          ...customerConfig.methods[1],
+          conditions: { customer: { accountType: { include: ["reseller"] } } },
+        },
+      ],
+    };
+    expect(() => validateShippingConfig(invalid)).toThrow(/Invalid shipping configuration/);
+  });
+
+  it("should match tiers by membership and order count", () => {
+    expect(tierOf({ membership: "prime", orderCount: 12 })).toBe("tier_prime");
+    expect(tierOf({ orderCount: 0 })).toBe("tier_first_order");
+    expect(tierOf({ membership: "basic", orderCount: 4 })).toBe("tier_standard");
+  });
+
+  it("should restrict methods by account type and segments", () => {
+    const freight = (customer: EvaluationContext["customer"]) =>
+      getShippingMethodsForDisplay(customerConfig, { ...context, customer }).find(
+        (m) => m.id === "freight"
+      );
+
+    expect(freight({ accountType: "business" })?.available).toBe(true);
+    expect(freight({ accountType: "consumer" })).toBeUndefined();
+    expect(freight({ accountType: "business", segments: ["blocked"] })).toBeUndefined();
+  });
+
+  it("should treat a missing customer as a guest unless strict", () => {
+    expect(tierOf(undefined)).toBe("tier_first_order");
+
+    const strict = getShippingMethodsForDisplay(customerConfig, context, { strict: true });
+    expect(strict.find((m) => m.methodId === "standard")?.tierId).toBe("tier_standard");
+  });
+});
+
+describe("Fulfilment locations and origin conditions", () => {
+  const originConfig: ShippingConfig = {
+    version: "1.0",
+    delivery: { timezone: "UTC", cutoffTime: "17:00" },
+    locations: [
+      { id: "us_east", country: "US", cutoffTime: "12:00" },
+      { id: "eu", country: "DE", methods: ["international", "standard"] },
+    ],
+    methods: [
+      {
+        id: "local_courier",
+        enabled: true,
+        name: "Local courier",
+        conditions: { origin: { domestic: true } },
+        pricing: { type: "flat", amount: 4 },
+      },
+      {
+        id: "international",
+        enabled: true,
+        name: "International",
+        conditions: { origin: { domestic: false } },
+        pricing: { type: "flat", amount: 25 },
+      },
+      {
+        id: "standard",
+        enabled: true,
+        name: "Standard",
+        pricing: { type: "flat", amount: 6 },
+        estimatedDays: { min: 1, max: 2 },
+      },
+    ],
+  };
+  const context: EvaluationContext = { orderValue: 30, itemCount: 1, country: "US" };
+  const byId = (methods: DisplayShippingMethod[], id: string) => methods.find((m) => m.id === id);
+
+  it("should validate locations and origin conditions", () => {
+    expect(() => validateShippingConfig(originConfig)).not.toThrow();
+
+    expect(() =>
+      validateShippingConfig({
+        ...originConfig,
+        locations: [{ id: "eu", country: "DE", methods: ["pickup"] }],
+      })
+    ).toThrow(/unknown method "pickup" in location "eu"/);
+    expect(() =>
+      validateShippingConfig({
+        ...originConfig,
+        methods: originConfig.methods.map((m) => ({
+          ...m,
+          conditions: { origin: { location: { include: ["west"] } } },
+        })),
+      })
+    ).toThrow(/unknown location "west"/);
+    const { locations: _locations, ...withoutLocations } = originConfig;
+    expect(() => validateShippingConfig(withoutLocations)).toThrow(
+      /origin conditions require locations/
+    );
+  });
+
+  it("should derive domestic and international from the candidate origins", () => {
+    const methods = getShippingMethodsForDisplay(originConfig, context);
+
+    expect(byId(methods, "local_courier")).toMatchObject({ available: true, origin: "us_east" });
+    expect(byId(methods, "international")).toMatchObject({ available: true, origin: "eu" });
+    expect(byId(methods, "standard")?.origin).toBe("us_east");
+
+    const german = getShippingMethodsForDisplay(originConfig, { ...context, country: "DE" });
+    expect(byId(german, "local_courier")).toBeUndefined(); // eu doesn't ship it
+    expect(byId(german, "international")?.origin).toBe("us_east");
+  });
+
+  it("should only ship methods from locations that support them", () => {
+    const fromEu = getShippingMethodsForDisplay(originConfig, { ...context, origin: "eu" });
+
+    expect(byId(fromEu, "local_courier")).toBeUndefined();
+    expect(byId(fromEu, "international")?.available).toBe(true);
+
+    const unknown = getShippingMethodsForDisplay(originConfig, { ...context, origins: ["west"] });
+    expect(unknown).toEqual([]);
+  });
+
+  it("should use the cut-off of the shipping location", () => {
+    const orderDate = new Date("2024-12-10T14:00:00Z"); // Tuesday
+    const standard = (origin: string) =>
+      byId(getShippingMethodsForDisplay(originConfig, { ...context, origin, orderDate }), "standard");
+
+    expect(standard("eu")?.earliestDate).toBe("2024-12-11");
+    expect(standard("us_east")?.earliestDate).toBe("2024-12-12");
+  });
+});
+
+describe("Pickup and locker methods", () => {
+  const store = (id: string, latitude: number, longitude: number, radius?: number) => ({
+    id,
+    name: { en: `Store ${id}` },
+    address: { line1: "1 Main St", city: "Berlin", country: "DE" },
+    coordinates: { latitude, longitude },
+    openingHours: [{ days: ["mon", "tue", "wed", "thu", "fri"] as Weekday[], from: "09:00", to: "18:00" }],
+    ...(radius !== undefined && { radius }),
+  });
+
+  const pickupConfig: ShippingConfig = {
+    version: "1.0",
+    methods: [
+      {
+        id: "store_pickup",
+        enabled: true,
+        name: "Pick up in store",
+        fulfillment: "pickup",
+        pickupRadius: 30,
+        pickupLocations: [
+          store("mitte", 52.52, 13.405),
+          store("potsdam", 52.3906, 13.0645),
+          store("hamburg", 53.5511, 9.9937),
+          store("spandau", 52.5351, 13.1973, 5),
+        ],
+        pricing: { type: "flat", amount: 0 },
+      },
+      {
+        id: "home",
+        enabled: true,
+        name: "Home delivery",
+        pricing: { type: "flat", amount: 4.9 },
+      },
+    ],
+  };
+  const context: EvaluationContext = { orderValue: 30, itemCount: 1, country: "DE", locale: "en" };
+  const pickup = (methods: DisplayShippingMethod[]) => methods.find((m) => m.id === "store_pickup");
+
+  it("should validate pickup locations", () => {
+    expect(() => validateShippingConfig(pickupConfig)).not.toThrow();
+
+    const [pickupMethod, homeMethod] = pickupConfig.methods;
+    expect(() =>
+      validateShippingConfig({
+        ...pickupConfig,
+        methods: [{ ...homeMethod, pickupLocations: pickupMethod.pickupLocations }],
+      })
+    ).toThrow(/require a pickup or locker fulfillment/);
+    expect(() =>
+      validateShippingConfig({
+        ...pickupConfig,
+        methods: [{ ...pickupMethod, pickupLocations: [store("x", 95, 0)] }],
+      })
+    ).toThrow(/Invalid shipping configuration/);
+  });
+
+  it("should return the eligible locations nearest first", () => {
+    const methods = getShippingMethodsForDisplay(pickupConfig, {
+      ...context,
+      coordinates: { latitude: 52.5, longitude: 13.35 }, // Schöneberg
+    });
+    const locations = pickup(methods)?.pickupLocations ?? [];
+
+    expect(pickup(methods)?.fulfillment).toBe("pickup");
+    expect(locations.map((l) => l.id)).toEqual(["mitte", "potsdam"]);
+    expect(locations[0]).toMatchObject({ name: "Store mitte", address: { city: "Berlin" } });
+    expect(locations[0].distance).toBeCloseTo(4.3, 0);
+    expect(methods.find((m) => m.id === "home")?.pickupLocations).toBeUndefined();
+  });
+
+  it("should hide pickup methods without a location in reach", () => {
+    const methods = getShippingMethodsForDisplay(pickupConfig, {
+      ...context,
+      coordinates: { latitude: 48.1351, longitude: 11.582 }, // Munich
+    });
+    expect(pickup(methods)).toBeUndefined();
+  });
+
+  it("should need the shopper location only in strict mode", () => {
+    const lenient = pickup(getShippingMethodsForDisplay(pickupConfig, context));
+    expect(lenient?.pickupLocations?.map((l) => l.id)).toEqual(["mitte", "potsdam", "hamburg", "spandau"]);
+    expect(lenient?.pickupLocations?.[0].distance).toBeUndefined();
+
+    const strict = getShippingMethodsForDisplay(pickupConfig, context, { strict: true });
+    expect(pickup(strict)).toBeUndefined();
+  });
+});
@@ -0,0 +1,219 @@
+/**
+ * Frontend / Backend Parity Tests
+ * getShippingMethodsForDisplay() and getShippingMethodById() must never disagree
+ *
+ * Features tested:
+ * - Tier criteria evaluated by the shared condition engine (geo, date, order, composition)
+ * - Every tier shown as available validates on the backend at the same price
+ * - Every tier not selected for display is rejected (or outranked) on the backend
+ * - Both sides evaluated with the backend's default strict policy
+ * - Default options: parity for complete contexts, and the lenient display of
+ *   date-windowed tiers without orderDate that the backend rejects
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  getShippingMethodsForDisplay,
+  getShippingMethodById,
+  type ShippingConfig,
+  type EvaluationContext,
+  type EvaluationOptions,
+} from "../src/index";
+
+// The backend is strict by default; the frontend must use the same policy to agree
+const strict: EvaluationOptions = { strict: true };
+
+const parityConfig: ShippingConfig = {
+  version: "1.0",
+  zones: [{ id: "us_remote", areas: [{ country: "US", region: ["US-AK", "US-HI"] }] }],
+  methods: [
+    {
+      id: "standard",
+      enabled: true,
+      name: "Standard",
+      pricing: {
+        type: "tiered",
+        rules: [
+          {
+            id: "tier_remote",
+            label: "Remote Standard",
+            criteria: { geo: { zone: { include: ["us_remote"] } } },
+            price: 19.99,
+          },
+          {
+            id: "tier_holiday",
+            label: "Holiday Standard",
+            criteria: {
+              geo: { country: { include: ["US"] } },
+              date: { after: "2024-12-10", before: "2024-12-20" },
+            },
+            price: 7.99,
+          },
+          {
+            id: "tier_free",
+            label: "Free Standard",
+            criteria: {
+              geo: { country: { include: ["US"] } },
+              order: { value: { min: 100 } },
+            },
+            price: 0,
+          },
+          {
+            id: "tier_ca",
+            label: "Canada Standard",
+            criteria: { geo: { country: { include: ["CA"] } } },
+            price: 12.99,
+          },
+          {
+            id: "tier_paid",
+            label: "Standard",
+            criteria: {
+              anyOf: [{ geo: { country: { include: ["US"] } } }, { order: { items: { min: 3 } } }],
+            },
+            price: 4.99,
+          },
+        ],
+      },
+    },
+    {
+      id: "express",
+      enabled: true,
+      name: "Express",
+      conditions: { geo: { country: { include: ["US", "CA"] }, zone: { exclude: ["us_remote"] } } },
+      pricing: { type: "item_based", firstItemPrice: 9.99, additionalItemPrice: 2 },
+    },
+  ],
+};
+
+const contexts: EvaluationContext[] = [
+  { orderValue: 50, itemCount: 1, country: "US" },
+  { orderValue: 150, itemCount: 2, country: "US" },
+  { orderValue: 150, itemCount: 2, country: "US", region: "US-AK" },
+  { orderValue: 50, itemCount: 1, country: "US", orderDate: new Date("2024-12-15") },
+  { orderValue: 150, itemCount: 1, country: "US", orderDate: new Date("2024-12-25") },
+  { orderValue: 50, itemCount: 1, country: "CA" },
+  { orderValue: 50, itemCount: 4, country: "DE" },
+  { orderValue: 50, itemCount: 1, country: "DE" },
+];
+
+describe("Frontend / backend parity", () => {
+  it.each(contexts.map((context) => [JSON.stringify(context), context] as const))(
+    "should validate every displayed method at the displayed price (%s)",
+    (_label, context) => {
+      const displayed = getShippingMethodsForDisplay(parityConfig, context, strict);
+
+      for (const method of displayed.filter((m) => m.available)) {
+        const validated = getShippingMethodById(parityConfig, method.id, context);
+        expect(validated?.available).toBe(true);
+        expect(validated?.price).toBe(method.price);
+        expect(validated?.tierId).toBe(method.tierId);
+      }
+    }
+  );
+
+  it.each(contexts.map((context) => [JSON.stringify(context), context] as const))(
+    "should only accept tiers that rank at or below the displayed tier (%s)",
+    (_label, context) => {
+      const displayed = getShippingMethodsForDisplay(parityConfig, context, strict).find(
+        (m) => m.methodId === "standard"
+      );
+      const pricing = parityConfig.methods[0].pricing;
+      if (pricing.type !== "tiered") throw new Error("expected tiered pricing");
+
+      const displayedIndex = pricing.rules.findIndex((rule) => rule.id === displayed?.tierId);
+
+      pricing.rules.forEach((rule, index) => {
+        const validated = getShippingMethodById(parityConfig, `standard:${rule.id}`, context);
+        if (displayedIndex === -1 || index < displayedIndex) {
+          // Tiers ranked above the displayed one (or any tier when none displayed) must be rejected
+          expect(validated?.available).toBe(false);
+        }
+        if (index === displayedIndex) {
+          expect(validated?.available).toBe(true);
+        }
+      });
+    }
+  );
+
+  // Default options: lenient display, strict backend
+  const dated = contexts.map((context) => ({
+    orderDate: new Date("2024-11-01"),
+    region: `${context.country}-XX`,
+    ...context,
+  }));
+
+  it.each(dated.map((context) => [JSON.stringify(context), context] as const))(
+    "should validate every displayed method with default options and a complete context (%s)",
+    (_label, context) => {
+      const displayed = getShippingMethodsForDisplay(parityConfig, context);
+
+      for (const method of displayed.filter((m) => m.available)) {
+        const validated = getShippingMethodById(parityConfig, method.id, context);
+        expect(validated?.available).toBe(true);
+        expect(validated?.price).toBe(method.price);
+      }
+    }
+  );
+
+  it("should reject date-windowed tiers displayed without orderDate under default options", () => {
+    const context: EvaluationContext = { orderValue: 50, itemCount: 1, country: "US" };
+
+    // Lenient display: the date window passes without an order date
+    const displayed = getShippingMethodsForDisplay(parityConfig, context).find(
+      (m) => m.methodId === "standard"
+    );
+    expect(displayed?.tierId).toBe("tier_holiday");
+
+    // Strict backend: the same tier needs the order date
+    const validated = getShippingMethodById(parityConfig, "standard:tier_holiday", context);
+    expect(validated?.available).toBe(false);
+    expect(validated?.reasons).toEqual([{ code: "MISSING_CONTEXT", field: "orderDate" }]);
+  });
+
+  it("should evaluate tier geo criteria on both sides", () => {
+    const context: EvaluationContext = { orderValue: 50, itemCount: 1, country: "CA" };
+
+    const displayed = getShippingMethodsForDisplay(parityConfig, context).find(
+      (m) => m.methodId === "standard"
+    );
+    expect(displayed?.tierId).toBe("tier_ca");
+
+    // The US-only free tier must not validate for Canada, even with a qualifying order value
+    const freeForCanada = getShippingMethodById(parityConfig, "standard:tier_free", {
+      ...context,
+      orderValue: 500,
+    });
+    expect(freeForCanada?.available).toBe(false);
+  });
+
+  it("should keep evaluating later criteria when orderDate is missing", () => {
+    const config: ShippingConfig = {
+      version: "1.0",
+      methods: [
+        {
+          id: "seasonal",
+          enabled: true,
+          name: "Seasonal",
+          pricing: {
+            type: "tiered",
+            rules: [
+              {
+                id: "tier_big_orders",
+                criteria: {
+                  date: { after: "2024-12-01" },
+                  anyOf: [{ order: { value: { min: 1000 } } }],
+                },
+                price: 0,
+              },
+              { id: "tier_default", criteria: {}, price: 5 },
+            ],
+          },
+        },
+      ],
+    };
+    const context: EvaluationContext = { orderValue: 10, itemCount: 1, country: "US" };
+
+    expect(getShippingMethodsForDisplay(config, context)[0].tierId).toBe("tier_default");
+    expect(getShippingMethodById(config, "seasonal:tier_big_orders", context)?.available).toBe(false);
+  });
+});
@@ -0,0 +1,117 @@
+/**
+ * Signed Quote Tests
+ * Tests for createShippingQuote() / verifyShippingQuote() - quote tokens
+ *
+ * Features tested:
+ * - Round trip of the displayed method
+ * - Expiry, tampering and wrong secrets
+ * - Context and config version binding
+ * - Runtimes without a global crypto (Node.js 18)
+ */
+
+import { describe, it, expect, vi } from "vitest";
+import {
+  getShippingMethodsForDisplay,
+  createShippingQuote,
+  verifyShippingQuote,
+  type ShippingConfig,
+  type EvaluationContext,
+} from "../src/index";
+
+const config: ShippingConfig = {
+  version: "1.0",
+  currency: "USD",
+  methods: [
+    {
+      id: "express",
+      enabled: true,
+      name: "Express",
+      pricing: { type: "flat", amount: 9.99 },
+    },
+  ],
+};
+
+const context: EvaluationContext = {
+  orderValue: 80,
+  itemCount: 2,
+  country: "US",
+  orderDate: new Date("2024-12-13T12:00:00Z"),
+};
+
+const secret = "test-secret";
+const now = new Date("2024-12-13T12:00:00Z");
+
+async function quote(ttlSeconds?: number) {
+  const [method] = getShippingMethodsForDisplay(config, context);
+  return createShippingQuote(config, method, context, { secret, ttlSeconds, now });
+}
+
+describe("Signed shipping quotes", () => {
+  it("should verify a quote for the same context", async () => {
+    const token = await quote();
+    const result = await verifyShippingQuote(config, token, context, { secret, now });
+
+    expect(result.status).toBe("ok");
+    if (result.status === "ok") {
+      expect(result.quote.method.id).toBe("express");
+      expect(result.quote.method.price).toBe(9.99);
+      expect(result.quote.expiresAt).toBe("2024-12-13T12:15:00.000Z");
+    }
+
+    // orderDate is not part of the context hash
+    const later = { ...context, orderDate: new Date("2024-12-13T12:05:00Z") };
+    expect((await verifyShippingQuote(config, token, later, { secret, now })).status).toBe("ok");
+  });
+
+  it("should reject expired quotes", async () => {
+    const token = await quote(60);
+    const result = await verifyShippingQuote(config, token, context, {
+      secret,
+      now: new Date("2024-12-13T12:01:00Z"),
+    });
+    expect(result.status).toBe("expired");
+  });
+
+  it("should reject tampered tokens and wrong secrets", async () => {
+    const token = await quote();
+    const [payload, signature] = token.split(".");
+
+    const forged = JSON.parse(atob(payload.replace(/-/g, "+").replace(/_/g, "/")));
+    forged.method.price = 0;
+    const forgedPayload = btoa(JSON.stringify(forged)).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+
+    const tampered = await verifyShippingQuote(config, `${forgedPayload}.${signature}`, context, { secret, now });
+    expect(tampered.status).toBe("invalid_signature");
+
+    const wrongSecret = await verifyShippingQuote(config, token, context, { secret: "other", now });
+    expect(wrongSecret.status).toBe("invalid_signature");
+
+    expect((await verifyShippingQuote(config, "not-a-token", context, { secret, now })).status).toBe(
+      "malformed"
+    );
+  });
+
+  it("should reject quotes for another context or config version", async () => {
+    const token = await quote();
+
+    const changedCart = await verifyShippingQuote(config, token, { ...context, orderValue: 20 }, { secret, now });
+    expect(changedCart.status).toBe("context_mismatch");
+
+    const otherConfig = { ...config, version: "2.0" } as unknown as ShippingConfig;
+    expect((await verifyShippingQuote(otherConfig, token, context, { secret, now })).status).toBe(
+      "config_mismatch"
+    );
+  });
+
+  it("should fall back to node:crypto without a global crypto", async () => {
+    const token = await quote();
+
+    vi.stubGlobal("crypto", undefined);
+    try {
+      expect(await quote()).toBe(token);
+      expect((await verifyShippingQuote(config, token, context, { secret, now })).status).toBe("ok");
+    } finally {
+      vi.unstubAllGlobals();
+    }
+  });
+});
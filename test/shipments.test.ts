@@ -0,0 +1,224 @@
+/**
+ * Split Shipment Tests
+ * Tests for splitShipments() / getShipmentsForDisplay() / validateShipmentSelection()
+ *
+ * Features tested:
+ * - Grouping line items by origin and shipping class
+ * - Per-shipment order context
+ * - Per-shipment options and combined total
+ * - Backend validation of one method per shipment
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  splitShipments,
+  getShipmentsForDisplay,
+  getShippingMethodsForDisplay,
+  validateShipmentSelection,
+  type ShippingConfig,
+  type EvaluationContext,
+} from "../src/index";
+
+const config: ShippingConfig = {
+  version: "1.0",
+  currency: "USD",
+  methods: [
+    {
+      id: "standard",
+      enabled: true,
+      name: "Standard",
+      conditions: { cart: { tags: { none: ["oversized"] } } },
+      pricing: {
+        type: "tiered",
+        rules: [
+          { id: "tier_paid", criteria: { order: { value: { max: 49.99 } } }, price: 5.99 },
+          { id: "tier_free", criteria: { order: { value: { min: 50 } } }, price: 0 },
+        ],
+      },
+    },
+    {
+      id: "freight",
+      enabled: true,
+      name: "Freight",
+      conditions: { cart: { allItemsHaveTag: "oversized" } },
+      pricing: { type: "flat", amount: 79 },
+    },
+  ],
+};
+
+const context: EvaluationContext = {
+  orderValue: 840,
+  itemCount: 3,
+  country: "US",
+  weight: 40,
+  items: [
+    { sku: "LAMP", quantity: 2, unitPrice: 20, weight: 1, origin: "east" },
+    {
+      sku: "SOFA",
+      quantity: 1,
+      unitPrice: 800,
+      weight: 38,
+      tags: ["oversized"],
+      origin: "east",
+      shippingClass: "furniture",
+    },
+  ],
+};
+
+describe("splitShipments()", () => {
+  it("should group items by origin and shipping class", () => {
+    const shipments = splitShipments(context);
+
+    expect(shipments.map((s) => s.id)).toEqual(["east/", "east/furniture"]);
+    expect(shipments[1]).toMatchObject({ origin: "east", shippingClass: "furniture" });
+    expect(shipments[1].context.origin).toBe("east");
+    expect(shipments[0].context).toMatchObject({ orderValue: 40, itemCount: 2 });
+    expect(shipments[0].context.weight).toBeUndefined();
+    expect(shipments[1].context).toMatchObject({ orderValue: 800, itemCount: 1 });
+  });
+
+  it("should keep origins and shipping classes of the same name apart", () => {
+    const shipments = splitShipments({
+      ...context,
+      items: [
+        { sku: "DESK", quantity: 1, origin: "furniture" },
+        { sku: "SOFA", quantity: 1, shippingClass: "furniture" },
+      ],
+    });
+
+    expect(shipments.map((s) => s.id)).toEqual(["furniture/", "/furniture"]);
+    expect(shipments[1].origin).toBeUndefined();
+    expect(shipments[1].context.origin).toBeUndefined();
+  });
+
+  it("should split the order value by item count without unit prices", () => {
+    const items = context.items?.map(({ unitPrice: _unitPrice, ...item }) => item);
+    const shipments = splitShipments({ ...context, orderValue: 90, items });
+
+    expect(shipments.map((s) => s.context.orderValue)).toEqual([60, 30]);
+  });
+
+  it("should keep the order context for a single shipment", () => {
+    const [shipment] = splitShipments({ ...context, items: context.items?.slice(0, 1) });
+    expect(shipment.id).toBe("east/");
+
+    const [noItems] = splitShipments({ orderValue: 20, itemCount: 1, country: "US" });
+    expect(noItems.id).toBe("default");
+    expect(noItems.context).toEqual({ orderValue: 20, itemCount: 1, country: "US" });
+  });
+});
+
+describe("getShipmentsForDisplay()", () => {
+  it("should return options per shipment and the cheapest total", () => {
+    const { shipments, total, currency } = getShipmentsForDisplay(config, context);
+
+    const available = shipments.map((s) => s.methods.filter((m) => m.available).map((m) => m.id));
+
+    expect(available).toEqual([["standard:tier_paid"], ["freight"]]);
+    expect(total).toBe(84.99);
+    expect(currency).toBe("USD");
+  });
+
+  it("should match getShippingMethodsForDisplay() for a single shipment", () => {
+    const single = { ...context, items: context.items?.slice(0, 1) };
+    const { shipments } = getShipmentsForDisplay(config, single);
+
+    expect(shipments[0].context).toEqual({ ...single, origin: "east" });
+    expect(shipments[0].methods).toEqual(
+      getShippingMethodsForDisplay(config, { ...single, origin: "east" })
+    );
+  });
+
+  it("should leave the total undefined when a shipment has no option", () => {
+    const chair = {
+      sku: "CHAIR",
+      quantity: 1,
+      unitPrice: 50,
+      origin: "east",
+      shippingClass: "furniture",
+    };
+    const { shipments, total } = getShipmentsForDisplay(config, {
+      ...context,
+      items: [...(context.items ?? []), chair],
+    });
+
+    expect(shipments[1].methods.some((m) => m.available)).toBe(false);
+    expect(total).toBeUndefined();
+  });
+});
+
+describe("validateShipmentSelection()", () => {
+  it("should validate one method per shipment", () => {
+    const result = validateShipmentSelection(config, context, {
+      "east/": "standard:tier_paid",
+      "east/furniture": "freight",
+    });
+
+    expect(result.valid).toBe(true);
+    expect(result.total).toBe(84.99);
+    expect(result.shipments.map((s) => s.method?.price)).toEqual([5.99, 79]);
+  });
+
+  it("should reject missing, unavailable and unknown selections", () => {
+    expect(validateShipmentSelection(config, context, { "east/": "standard:tier_paid" }).valid).toBe(
+      false
+    );
+
+    const unavailable = validateShipmentSelection(config, context, {
+      "east/": "standard:tier_paid",
+      "east/furniture": "standard:tier_free",
+    });
+    expect(unavailable.valid).toBe(false);
+    expect(unavailable.total).toBe(5.99);
+    expect(unavailable.shipments[1].method?.reasons).toEqual([
+      { code: "CART_MISMATCH", field: "tags" },
+    ]);
+
+    const unknown = validateShipmentSelection(config, context, {
+      "east/": "standard:tier_paid",
+      "east/furniture": "freight",
+      west: "freight",
+    });
+    expect(unknown.valid).toBe(false);
+  });
+
+  it("should validate weight-conditioned methods the display offered", () => {
+    const weightConfig: ShippingConfig = {
+      version: "1.0",
+      currency: "USD",
+      methods: [
+        {
+          id: "light",
+          enabled: true,
+          name: "Light parcel",
+          conditions: { order: { weight: { max: 5 } } },
+          pricing: { type: "flat", amount: 4 },
+        },
+      ],
+    };
+    const parcel: EvaluationContext = {
+      orderValue: 30,
+      itemCount: 2,
+      country: "US",
+      weight: 2,
+      items: [
+        { sku: "MUG", quantity: 1, origin: "east" },
+        { sku: "TEE", quantity: 1, origin: "west" },
+      ],
+    };
+
+    const { shipments } = getShipmentsForDisplay(weightConfig, parcel);
+    expect(shipments.map((s) => s.context.weight)).toEqual([1, 1]);
+    expect(shipments.map((s) => s.methods.map((m) => [m.id, m.available]))).toEqual([
+      [["light", true]],
+      [["light", true]],
+    ]);
+
+    const result = validateShipmentSelection(weightConfig, parcel, {
+      "east/": "light",
+      "west/": "light",
+    });
+    expect(result.valid).toBe(true);
+    expect(result.total).toBe(8);
+  });
+});